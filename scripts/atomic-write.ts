@@ -0,0 +1,58 @@
+import { writeFileSync, renameSync, unlinkSync, existsSync, copyFileSync, mkdirSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+
+/**
+ * Write a file atomically: write a temporary file next to it, then rename it over the
+ * original, so readers never see a half-written file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = join(dirname(filePath), `.${basename(filePath)}.${process.pid}.tmp`);
+  try {
+    writeFileSync(tempPath, content, 'utf-8');
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write several files as one change: every file is written to a temporary file first, and
+ * only once all of them are on disk are they renamed over the originals. A failed write
+ * leaves every original untouched
+ */
+export function writeFilesAtomic(files: { path: string; content: string }[]): void {
+  const staged: { tempPath: string; path: string }[] = [];
+  try {
+    files.forEach(({ path, content }) => {
+      const tempPath = join(dirname(path), `.${basename(path)}.${process.pid}.tmp`);
+      writeFileSync(tempPath, content, 'utf-8');
+      staged.push({ tempPath, path });
+    });
+  } catch (error) {
+    staged.forEach(({ tempPath }) => {
+      if (existsSync(tempPath)) {
+        unlinkSync(tempPath);
+      }
+    });
+    throw error;
+  }
+  staged.forEach(({ tempPath, path }) => renameSync(tempPath, path));
+}
+
+/**
+ * Copy a data file into a backups folder next to it before it is rewritten
+ * Returns the path of the copy
+ */
+export function backupFile(filePath: string, timestamp: string): string {
+  const backupDir = join(dirname(filePath), 'backups');
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true });
+  }
+  const extension = extname(filePath);
+  const backupPath = join(backupDir, `${basename(filePath, extension)}-${timestamp}${extension}`);
+  copyFileSync(filePath, backupPath);
+  return backupPath;
+}
@@ -0,0 +1,101 @@
+import { ParsedTransaction } from './categorization-rules';
+
+/**
+ * A break in the running balance of an account
+ */
+export interface BalanceGap {
+  account: string;
+  /** Last transaction whose balance chains correctly, or null at the start of the account */
+  after: ParsedTransaction | null;
+  /** Transaction whose reported balance doesn't follow from the previous one */
+  transaction: ParsedTransaction;
+  expectedPreviousBalance: number;
+  actualPreviousBalance: number;
+  /** Net amount unaccounted for: the sum of missing movements, or minus the sum of duplicated ones */
+  difference: number;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function signedCents(transaction: ParsedTransaction): number {
+  const cents = toCents(transaction.amount);
+  return transaction.type === 'expense' ? -cents : cents;
+}
+
+/**
+ * Verify that previous balance ± amount equals the reported balance for every
+ * consecutive pair of transactions of each account
+ *
+ * Exports don't agree on the order of same-day movements, so within a day the
+ * transactions are chained in whichever order makes their balances follow.
+ * The first transaction of an account is checked against its opening balance when known.
+ */
+export function checkBalanceContinuity(
+  transactions: ParsedTransaction[],
+  openingBalances: Record<string, number> = {}
+): BalanceGap[] {
+  const byAccount = new Map<string, ParsedTransaction[]>();
+  transactions
+    .filter(t => t.balance !== undefined && t.balance !== null)
+    .forEach(t => {
+      const list = byAccount.get(t.account) || [];
+      list.push(t);
+      byAccount.set(t.account, list);
+    });
+
+  const gaps: BalanceGap[] = [];
+
+  for (const [account, accountTransactions] of byAccount) {
+    // Group by date, oldest first
+    const byDate = new Map<string, ParsedTransaction[]>();
+    accountTransactions.forEach(t => {
+      const list = byDate.get(t.date) || [];
+      list.push(t);
+      byDate.set(t.date, list);
+    });
+    const dates = Array.from(byDate.keys()).sort();
+
+    let previous: ParsedTransaction | null = null;
+    let balanceCents: number | null =
+      openingBalances[account] !== undefined ? toCents(openingBalances[account]) : null;
+
+    for (const date of dates) {
+      const remaining = [...byDate.get(date)!];
+
+      while (remaining.length > 0) {
+        // Pick the movement that continues the chain; if none does, report the gap and resync
+        let index = balanceCents === null
+          ? -1
+          : remaining.findIndex(t => toCents(t.balance!) - signedCents(t) === balanceCents);
+
+        if (index === -1) {
+          // Resume from a movement no other same-day movement leads into
+          const startIndex = remaining.findIndex(t =>
+            !remaining.some(other => toCents(other.balance!) === toCents(t.balance!) - signedCents(t))
+          );
+          index = startIndex === -1 ? 0 : startIndex;
+          const next = remaining[index];
+          const expectedCents = toCents(next.balance!) - signedCents(next);
+          if (balanceCents !== null) {
+            gaps.push({
+              account,
+              after: previous,
+              transaction: next,
+              expectedPreviousBalance: expectedCents / 100,
+              actualPreviousBalance: balanceCents / 100,
+              difference: (expectedCents - balanceCents) / 100,
+            });
+          }
+        }
+
+        const [current] = remaining.splice(index, 1);
+        balanceCents = toCents(current.balance!);
+        previous = current;
+      }
+    }
+  }
+
+  return gaps;
+}
@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { CSVRow } from './importer-profiles';
+
+/**
+ * Check whether a file should be read as an ISO 20022 camt.052/camt.053 statement
+ * camt files are plain XML, so the root namespace is sniffed to tell them apart
+ */
+export function isCamtFile(filePath: string): boolean {
+  if (extname(filePath).toLowerCase() !== '.xml') {
+    return false;
+  }
+  const head = readFileSync(filePath, 'utf-8').substring(0, 2048);
+  return /urn:iso:std:iso:20022:tech:xsd:camt\.05[23]/.test(head);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extract every <Tag>...</Tag> element, allowing a namespace prefix and attributes
+ */
+function readBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>[\\s\\S]*?</(?:\\w+:)?${tag}>`, 'g');
+  return xml.match(pattern) ?? [];
+}
+
+/**
+ * Read the text of the first element found by following a path of nested tags
+ */
+function readText(xml: string, ...path: string[]): string {
+  let scope = xml;
+  for (const tag of path) {
+    const block = readBlocks(scope, tag)[0];
+    if (!block) return '';
+    scope = block;
+  }
+  const inner = scope.replace(/^<[^>]*>/, '').replace(/<\/[^>]*>$/, '');
+  return /</.test(inner) ? '' : decodeEntities(inner.trim());
+}
+
+/**
+ * 1-based line where a block starts in the file, for provenance and error reporting
+ */
+function lineOf(content: string, block: string): number | undefined {
+  const offset = content.indexOf(block);
+  return offset === -1 ? undefined : content.substring(0, offset).split('\n').length;
+}
+
+/**
+ * Amount of a balance or entry in cents, signed by its CdtDbtInd
+ */
+function readSignedCents(block: string): number {
+  const amount = Math.round(parseFloat(readText(block, 'Amt')) * 100);
+  if (isNaN(amount)) {
+    throw new Error(`Invalid camt amount: ${readText(block, 'Amt')}`);
+  }
+  return readText(block, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+/**
+ * Date of a BookgDt/ValDt element, which holds either Dt or DtTm
+ */
+function readDate(block: string, tag: string): string {
+  return (readText(block, tag, 'Dt') || readText(block, tag, 'DtTm')).substring(0, 10);
+}
+
+/**
+ * Balance of the given type code (OPBD, CLBD, PRCD, ITBD...) in cents, or null
+ */
+function readBalance(statement: string, code: string): number | null {
+  const balance = readBlocks(statement, 'Bal').find((bal) => readText(bal, 'Tp', 'CdOrPrtry', 'Cd') === code);
+  return balance ? readSignedCents(balance) : null;
+}
+
+/**
+ * Name of the party on the other side of the entry: the creditor for debits
+ * and the debtor for credits (camt.053.001.08+ nests the name under Pty)
+ */
+function readCounterparty(details: string, isDebit: boolean): string {
+  const role = isDebit ? 'Cdtr' : 'Dbtr';
+  return readText(details, 'RltdPties', role, 'Nm') || readText(details, 'RltdPties', role, 'Pty', 'Nm');
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Parse a camt.053 (end-of-day statement) or camt.052 (intraday report) file
+ *
+ * Each booked Ntry becomes a row: BookgDt maps to fecha, ValDt to valorDate, the
+ * counterparty name and remittance info form the description, and the bank's
+ * AcctSvcrRef (or NtryRef) becomes the stable transaction ID. When the statement
+ * carries an opening balance, the running balance is computed per entry and
+ * checked against the closing balance.
+ * Dates are returned as YYYY-MM-DD and amounts with a dot decimal separator.
+ */
+export function parseCamt(filePath: string): CSVRow[] {
+  const xml = readFileSync(filePath, 'utf-8');
+  const statements = [...readBlocks(xml, 'Stmt'), ...readBlocks(xml, 'Rpt')];
+
+  if (statements.length === 0) {
+    throw new Error('No camt statement (Stmt) or report (Rpt) found');
+  }
+
+  const rows: CSVRow[] = [];
+
+  for (const statement of statements) {
+    const acct = readBlocks(statement, 'Acct')[0] ?? '';
+    const account = readText(acct, 'IBAN') || readText(acct, 'Othr', 'Id');
+    if (!account) {
+      throw new Error(`Statement ${readText(statement, 'Id')} has no account IBAN or ID`);
+    }
+
+    const currency = readText(acct, 'Ccy');
+
+    const openingCents = readBalance(statement, 'OPBD') ?? readBalance(statement, 'PRCD');
+    let balanceCents = openingCents;
+
+    for (const entry of readBlocks(statement, 'Ntry')) {
+      const status = readText(entry, 'Sts') || readText(entry, 'Sts', 'Cd');
+      if (status && status !== 'BOOK') {
+        const entryRef = readText(entry, 'NtryRef');
+        console.warn(`  Skipping ${status} entry${entryRef ? ` ${entryRef}` : ''} in account ${account}`);
+        continue;
+      }
+
+      const amountCents = readSignedCents(entry);
+      const isDebit = amountCents < 0;
+      const bookingDate = readDate(entry, 'BookgDt');
+      const valueDate = readDate(entry, 'ValDt') || bookingDate;
+
+      const details = readBlocks(entry, 'TxDtls');
+      const counterparty = details.map((tx) => readCounterparty(tx, isDebit)).find(Boolean) ?? '';
+      const remittance = details
+        .flatMap((tx) => readBlocks(tx, 'Ustrd').map((ustrd) => readText(ustrd)))
+        .filter(Boolean)
+        .join(' ');
+      const additionalInfo = readText(entry, 'AddtlNtryInf');
+      const description = [counterparty, remittance].filter(Boolean).join(' - ') || additionalInfo;
+
+      const reference = readText(entry, 'AcctSvcrRef') || readText(entry, 'NtryRef');
+      const transactionCode =
+        readText(entry, 'BkTxCd', 'Prtry', 'Cd') || readText(entry, 'BkTxCd', 'Domn', 'Fmly', 'SubFmlyCd');
+
+      if (balanceCents !== null) {
+        balanceCents += amountCents;
+      }
+
+      rows.push({
+        valorDate: valueDate,
+        fecha: bookingDate,
+        concepto: description || transactionCode || 'Movimiento',
+        movimiento: transactionCode || additionalInfo,
+        importe: formatCents(amountCents),
+        disponible: balanceCents !== null ? formatCents(balanceCents) : '',
+        account,
+        currency: entry.match(/<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"/)?.[1] ?? (currency || undefined),
+        externalId: reference ? `tx_camt_${account}_${reference.replace(/[^A-Za-z0-9_-]/g, '')}` : undefined,
+        line: lineOf(xml, entry),
+      });
+    }
+
+    const closingCents = readBalance(statement, 'CLBD');
+    if (balanceCents !== null && closingCents !== null && closingCents !== balanceCents) {
+      console.warn(
+        `  Account ${account}: closing balance ${formatCents(closingCents)} ` +
+        `does not match computed balance ${formatCents(balanceCents)}`
+      );
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,102 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin, ViteDevServer } from 'vite';
+
+/**
+ * Read a request body as JSON
+ */
+function readJSONBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch (error) {
+        reject(new Error(`Invalid JSON body: ${error instanceof Error ? error.message : error}`));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Host names that reach the dev server from the developer's own machine
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether a request comes from a page served by this dev server. The server listens on every
+ * interface, so without this any site the developer visits could post changes to it
+ */
+function isOwnOrigin(server: ViteDevServer, origin: string | undefined): boolean {
+  if (!origin || !server.resolvedUrls) return false;
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  const own = [...server.resolvedUrls.local, ...server.resolvedUrls.network].map(u => new URL(u));
+  return own.some(u =>
+    u.origin === url.origin ||
+    (LOOPBACK_HOSTS.includes(url.hostname) && u.protocol === url.protocol && u.port === url.port)
+  );
+}
+
+function isJSONRequest(req: IncomingMessage): boolean {
+  return (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+function sendJSON(res: ServerResponse, status: number, data: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Dev-server API behind the categories screen: GET lists the catalogue, POST applies a change
+ * (a `CategoryChange`). Only the dev server has it, so the
+ * built dashboard shows the catalogue read-only. Changes are only accepted as JSON from the
+ * dev server's own pages
+ */
+export function categoriesDevApi(): Plugin {
+  return {
+    name: 'categories-dev-api',
+    apply: 'serve',
+    configureServer(server: ViteDevServer) {
+      server.middlewares.use(`${server.config.base}api/categories`, async (req, res) => {
+        try {
+          // Loaded per request so edits to the catalogue code apply without a restart
+          const catalogue = await server.ssrLoadModule('/scripts/category-catalogue.ts');
+          const categoriesFile = await server.ssrLoadModule('/scripts/categories-file.ts');
+          const categoriesSchema = await server.ssrLoadModule('/src/config/categories-schema.ts');
+
+          if (req.method === 'GET') {
+            sendJSON(res, 200, categoriesFile.readCategoriesFile());
+          } else if (req.method === 'POST') {
+            if (!isOwnOrigin(server, req.headers.origin)) {
+              sendJSON(res, 403, { error: 'Changes are only accepted from the dev server\'s own pages' });
+              return;
+            }
+            if (!isJSONRequest(req)) {
+              sendJSON(res, 415, { error: 'Expected an application/json body' });
+              return;
+            }
+            const { change, problems } = categoriesSchema.validateCategoryChange(await readJSONBody(req));
+            if (!change) {
+              sendJSON(res, 400, { error: `Invalid change:\n${problems.map((p: string) => `  - ${p}`).join('\n')}` });
+              return;
+            }
+            const dryRun = new URL(req.url ?? '', 'http://localhost').searchParams.has('dryRun');
+            sendJSON(res, 200, catalogue.applyCatalogueChange(change, { dryRun }));
+          } else {
+            sendJSON(res, 405, { error: `Method ${req.method} not allowed` });
+          }
+        } catch (error) {
+          sendJSON(res, 400, { error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+    },
+  };
+}
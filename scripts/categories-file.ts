@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CategoriesFile, validateCategoriesFile } from '../src/config/categories-schema';
+import { writeFileAtomic } from './atomic-write';
+
+/**
+ * Default location of the categories file
+ */
+export function getCategoriesPath(): string {
+  return join(process.cwd(), 'src', 'config', 'categories.json');
+}
+
+/**
+ * Read and validate a categories file
+ * Throws an error listing every problem found
+ */
+export function readCategoriesFile(filePath: string = getCategoriesPath()): CategoriesFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read categories file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { file, problems } = validateCategoriesFile(json);
+  if (!file) {
+    throw new Error(`Invalid categories file ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+  return file;
+}
+
+/**
+ * Serialize a categories file with one category per line, like the hand-written one
+ */
+export function formatCategoriesFile(categoriesFile: CategoriesFile): string {
+  const lines = categoriesFile.categories.map(category => {
+    const properties = Object.entries(category)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${JSON.stringify(key)}: ${Array.isArray(value) ? `[${value.map(v => JSON.stringify(v)).join(', ')}]` : JSON.stringify(value)}`);
+    return `    { ${properties.join(', ')} }`;
+  });
+  return `{\n  "version": ${categoriesFile.version},\n  "categories": [\n${lines.join(',\n')}\n  ]\n}\n`;
+}
+
+/**
+ * Validate a categories file and format it for writing
+ * Throws an error listing every problem found
+ */
+export function serializeCategoriesFile(filePath: string, categoriesFile: CategoriesFile): string {
+  const { file, problems } = validateCategoriesFile(categoriesFile);
+  if (!file) {
+    throw new Error(`Refusing to write an invalid categories file to ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+  return formatCategoriesFile(file);
+}
+
+/**
+ * Validate a categories file and write it atomically
+ * Throws an error listing every problem found, without writing
+ */
+export function writeCategoriesFile(filePath: string, categoriesFile: CategoriesFile): void {
+  writeFileAtomic(filePath, serializeCategoriesFile(filePath, categoriesFile));
+}
@@ -0,0 +1,159 @@
+import { Category, CategoryChange, CategoryChangeResult, CategoryFields } from '../src/types/transaction';
+import { readCategoriesFile } from './categories-file';
+import { applyCatalogueChange } from './category-catalogue';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+const USAGE = `Usage:
+  categories list [--archived]
+  categories add <id> --name <name> --icon <icon> --color <color> [--parent <id>] [--types income,expense]
+  categories edit <id> [--name <name>] [--icon <icon>] [--color <color>] [--parent <id>|""] [--types <types>|""]
+  categories archive <id>
+  categories unarchive <id>
+  categories rename <id> <new-id> [--dry-run]
+  categories merge <id> <into-id> [--dry-run]`;
+
+/**
+ * Value of a --name style option, or undefined when it isn't given
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`--${name} needs a value`);
+  }
+  return value;
+}
+
+/**
+ * Category fields given as options
+ */
+function readFields(args: string[]): CategoryFields {
+  const fields: CategoryFields = {};
+  const name = getOption(args, 'name');
+  const icon = getOption(args, 'icon');
+  const color = getOption(args, 'color');
+  const parentId = getOption(args, 'parent');
+  const types = getOption(args, 'types');
+  if (name !== undefined) fields.name = name;
+  if (icon !== undefined) fields.icon = icon;
+  if (color !== undefined) fields.color = color;
+  if (parentId !== undefined) fields.parentId = parentId;
+  if (types !== undefined) {
+    fields.types = types.split(',').map(type => type.trim()).filter(Boolean) as Category['types'];
+  }
+  return fields;
+}
+
+/**
+ * Print the catalogue as a tree, with how many transactions use each category
+ */
+function listCategories(showArchived: boolean) {
+  const { categories } = readCategoriesFile();
+  const counts = new Map<string, number>();
+  readTransactionsFile(getTransactionsPath()).forEach(t => {
+    const category = t.categoryOverride && t.categoryOverride.trim() ? t.categoryOverride : t.category;
+    counts.set(category, (counts.get(category) || 0) + 1);
+  });
+
+  console.log('🗂️  Categories');
+  console.log('─'.repeat(100));
+  const print = (category: Category, depth: number) => {
+    if (category.archived && !showArchived) return;
+    const label = `${'  '.repeat(depth)}${category.icon} ${category.name}`;
+    const types = category.types ? category.types.join(', ') : 'income, expense';
+    const archived = category.archived ? '  (archived)' : '';
+    console.log(`  ${label.padEnd(36)} ${category.id.padEnd(20)} ${types.padEnd(17)} ${(counts.get(category.id) || 0).toString().padStart(5)} tx${archived}`);
+    categories.filter(child => child.parentId === category.id).forEach(child => print(child, depth + 1));
+  };
+  categories.filter(category => !category.parentId).forEach(category => print(category, 0));
+  console.log('─'.repeat(100));
+
+  const archivedCount = categories.filter(category => category.archived).length;
+  if (archivedCount > 0 && !showArchived) {
+    console.log(`\n💡 ${archivedCount} archived categor${archivedCount === 1 ? 'y' : 'ies'} hidden; run with --archived to show them`);
+  }
+}
+
+function printResult(result: CategoryChangeResult, dryRun: boolean) {
+  if (result.transactionsUpdated > 0 || result.rulesUpdated > 0 || result.subcategoriesUpdated > 0) {
+    const verb = dryRun ? 'Would update' : 'Updated';
+    console.log(`  ${verb} ${result.transactionsUpdated} transaction(s), ${result.rulesUpdated} rule(s) and ${result.subcategoriesUpdated} subcategor${result.subcategoriesUpdated === 1 ? 'y' : 'ies'}`);
+  }
+  result.warnings.forEach(warning => console.warn(`  ⚠️  ${warning}`));
+  if (dryRun) {
+    console.log('\nDry run: nothing was written');
+  }
+}
+
+/**
+ * Main function
+ */
+function main() {
+  const args = process.argv.slice(2);
+  const [command, id, target] = args;
+  const dryRun = args.includes('--dry-run');
+
+  if (!command || command === 'list') {
+    try {
+      listCategories(args.includes('--archived'));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  let change: CategoryChange;
+  let summary: string;
+  try {
+    if (!id || id.startsWith('--')) {
+      throw new Error(USAGE);
+    }
+    switch (command) {
+      case 'add': {
+        const fields = readFields(args);
+        if (!fields.name || !fields.icon || !fields.color) {
+          throw new Error('add needs --name, --icon and --color');
+        }
+        change = { action: 'create', category: { id, name: fields.name, icon: fields.icon, color: fields.color, ...fields } };
+        summary = `Created ${fields.icon} ${fields.name} (${id})`;
+        break;
+      }
+      case 'edit':
+        change = { action: 'edit', id, changes: readFields(args) };
+        summary = `Updated ${id}`;
+        break;
+      case 'archive':
+      case 'unarchive':
+        change = { action: command, id };
+        summary = `${command === 'archive' ? 'Archived' : 'Unarchived'} ${id}`;
+        break;
+      case 'rename':
+      case 'merge':
+        if (!target || target.startsWith('--')) {
+          throw new Error(USAGE);
+        }
+        change = command === 'rename' ? { action: 'rename', id, newId: target } : { action: 'merge', id, into: target };
+        summary = command === 'rename' ? `Renamed ${id} → ${target}` : `Merged ${id} into ${target}`;
+        break;
+      default:
+        throw new Error(USAGE);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  try {
+    const result = applyCatalogueChange(change, { dryRun });
+    console.log(`${dryRun ? '🔍' : '✅'} ${summary}`);
+    printResult(result, dryRun);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+main();
@@ -1,14 +1,42 @@
-// Import ParsedTransaction type
-export interface ParsedTransaction {
-  id: string;
-  date: string;
-  description: string;
-  descriptionOverride?: string;
-  amount: number;
-  category: string;
-  categoryOverride?: string;
-  account: string;
-  type: "income" | "expense";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { z } from "zod";
+import { writeFileAtomic } from "./atomic-write";
+import { readCategoriesFile } from "./categories-file";
+import { ACCOUNTS } from "../src/config/accounts";
+import { formatIssues } from "../src/config/schema-issues";
+import { Category, RuleMatch, Transaction } from "../src/types/transaction";
+
+/**
+ * A transaction as stored in the data file; see src/config/transactions-schema.ts
+ */
+export type ParsedTransaction = Transaction;
+
+export type { RuleMatch };
+
+/**
+ * Name recorded in `categorizedBy.rule` for categories set by the classifier
+ */
+export const CLASSIFIER_RULE = "classifier";
+
+/**
+ * Outcome of one rule condition for one transaction
+ */
+export interface RuleCheck {
+  condition: "type" | "movementTypes" | "accounts" | "amount" | "dates" | "merchants" | "description";
+  passed: boolean;
+  detail: string;
+}
+
+/**
+ * Full evaluation of a rule against a transaction: every condition is checked, so
+ * a rule that doesn't match can say why
+ */
+export interface RuleEvaluation {
+  matched: boolean;
+  keyword?: string;
+  pattern?: string;
+  checks: RuleCheck[];
 }
 
 /**
@@ -19,160 +47,344 @@ export interface CategorizationRule {
   name: string;
   category: string;
   match: (transaction: ParsedTransaction) => boolean;
+  evaluate: (transaction: ParsedTransaction) => RuleEvaluation;
 }
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected a YYYY-MM-DD date");
+
+/**
+ * Schema of one rule in the rules file
+ * Every condition given must hold; keywords and patterns match when any of them matches the description
+ */
+const ruleDefinitionSchema = z
+  .object({
+    name: z.string().min(1),
+    category: z.string().min(1),
+    keywords: z.array(z.string().min(1)).min(1).optional(),
+    patterns: z.array(z.string().min(1)).min(1).optional(), // Case-insensitive regular expressions
+    type: z.enum(["income", "expense"]).optional(),
+    movementTypes: z.array(z.string().min(1)).min(1).optional(), // The bank's movement type, case-insensitive
+    amount: z
+      .object({ min: z.number().nonnegative().optional(), max: z.number().nonnegative().optional() })
+      .strict()
+      .optional(), // Inclusive range of the absolute amount
+    accounts: z.array(z.string().min(1)).min(1).optional(),
+    dates: z.object({ from: isoDate.optional(), to: isoDate.optional() }).strict().optional(), // Inclusive
+    merchants: z.array(z.string().min(1)).min(1).optional(), // Normalized merchant names, case-insensitive
+  })
+  .strict()
+  .refine(
+    (rule) =>
+      rule.keywords || rule.patterns || rule.type || rule.movementTypes || rule.amount || rule.accounts || rule.dates || rule.merchants,
+    { message: "rule has no conditions and would match every transaction" }
+  );
+
+/**
+ * Schema of the rules file
+ */
+export const rulesFileSchema = z
+  .object({
+    version: z.literal(1),
+    rules: z.array(ruleDefinitionSchema),
+  })
+  .strict();
+
+export type RuleDefinition = z.infer<typeof ruleDefinitionSchema>;
+export type RulesFile = z.infer<typeof rulesFileSchema>;
+
 /**
- * Check if description contains any of the given keywords (case-insensitive)
+ * Default location of the categorization rules file
  */
-function containsAny(description: string, keywords: string[]): boolean {
+export function getRulesPath(): string {
+  return join(process.cwd(), "src", "config", "categorization-rules.json");
+}
+
+/**
+ * Find the first of the given keywords the description contains (case-insensitive)
+ */
+function findKeyword(description: string, keywords: string[]): string | undefined {
   const lowerDescription = description.toLowerCase();
-  return keywords.some((keyword) =>
+  return keywords.find((keyword) =>
     lowerDescription.includes(keyword.toLowerCase())
   );
 }
 
+/**
+ * Check if the bank's movement type is one of the given types (case-insensitive)
+ */
+function isMovementType(transaction: ParsedTransaction, types: string[]): boolean {
+  const movementType = transaction.movementType?.trim().toLowerCase();
+  return Boolean(movementType) && types.some((type) => type.toLowerCase() === movementType);
+}
+
+/**
+ * Find what the schema can't check: unknown categories and accounts, categories that don't
+ * apply to the rule's type, invalid regexes, empty ranges and repeated rule names
+ * Categories come from the categories file as it is now, not as it was when the process started,
+ * unless the catalogue the rules will be checked against is given
+ */
+function findRuleProblems(rules: RuleDefinition[], catalogue: Category[] = readCategoriesFile().categories): string[] {
+  const categories = new Map(catalogue.map((c) => [c.id, c]));
+  const accountIds = new Set(ACCOUNTS.map((a) => a.id));
+  const seenNames = new Set<string>();
+  const problems: string[] = [];
+
+  rules.forEach((rule, index) => {
+    const where = `rules[${index}] (${rule.name})`;
+
+    const category = categories.get(rule.category);
+    if (!category) {
+      problems.push(`${where}: category "${rule.category}" is not defined in the categories file`);
+    } else if (rule.type && category.types && !category.types.includes(rule.type)) {
+      problems.push(`${where}: category "${rule.category}" doesn't apply to ${rule.type} transactions`);
+    }
+    rule.accounts?.forEach((account) => {
+      if (!accountIds.has(account)) {
+        problems.push(`${where}: account "${account}" is not defined in ACCOUNTS`);
+      }
+    });
+    rule.patterns?.forEach((pattern) => {
+      try {
+        new RegExp(pattern, "i");
+      } catch (error) {
+        problems.push(`${where}: invalid pattern ${pattern}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    if (rule.amount?.min !== undefined && rule.amount.max !== undefined && rule.amount.min > rule.amount.max) {
+      problems.push(`${where}: amount.min is greater than amount.max`);
+    }
+    if (rule.dates?.from && rule.dates.to && rule.dates.from > rule.dates.to) {
+      problems.push(`${where}: dates.from is after dates.to`);
+    }
+    if (seenNames.has(rule.name)) {
+      problems.push(`${where}: another rule is already named "${rule.name}"`);
+    }
+    seenNames.add(rule.name);
+  });
+
+  return problems;
+}
+
+/**
+ * Read and validate a rules file
+ * Throws an error listing every problem found
+ */
+export function readRulesFile(filePath: string): RulesFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Could not read categorization rules file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = rulesFileSchema.safeParse(json);
+  const problems = parsed.success ? findRuleProblems(parsed.data.rules) : formatIssues(parsed.error);
+
+  if (!parsed.success || problems.length > 0) {
+    throw new Error(`Invalid categorization rules file ${filePath}:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Render a rule condition on one line, e.g. ["gym", "fitness"] or { "max": 60 }
+ */
+function formatRuleValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => JSON.stringify(item)).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${JSON.stringify(item)}`);
+    return `{ ${entries.join(", ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Serialize a rules file in the layout of the hand-written one: one property per line,
+ * conditions kept on a single line
+ */
+export function formatRulesFile(rulesFile: RulesFile): string {
+  const rules = rulesFile.rules.map((rule) => {
+    const properties = Object.entries(rule).map(([key, value]) => `      ${JSON.stringify(key)}: ${formatRuleValue(value)}`);
+    return `    {\n${properties.join(",\n")}\n    }`;
+  });
+  return `{\n  "version": ${rulesFile.version},\n  "rules": [\n${rules.join(",\n")}\n  ]\n}\n`;
+}
+
+/**
+ * Problems of a rules file, empty when it is valid; `categories` replaces the categories file
+ * when the rules are checked against a catalogue that isn't written yet
+ */
+export function validateRulesFile(rulesFile: RulesFile, categories?: Category[]): { file?: RulesFile; problems: string[] } {
+  const parsed = rulesFileSchema.safeParse(rulesFile);
+  if (!parsed.success) {
+    return { problems: formatIssues(parsed.error) };
+  }
+  const problems = findRuleProblems(parsed.data.rules, categories);
+  return problems.length > 0 ? { problems } : { file: parsed.data, problems };
+}
+
+/**
+ * Validate a rules file and format it for writing; `categories` replaces the categories file
+ * when the rules are written together with a new catalogue
+ * Throws an error listing every problem found
+ */
+export function serializeRulesFile(filePath: string, rulesFile: RulesFile, categories?: Category[]): string {
+  const { file, problems } = validateRulesFile(rulesFile, categories);
+  if (!file) {
+    throw new Error(`Refusing to write invalid categorization rules to ${filePath}:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+  return formatRulesFile(file);
+}
+
+/**
+ * Validate a rules file and write it atomically
+ * Throws an error listing every problem found, without writing
+ */
+export function writeRulesFile(filePath: string, rulesFile: RulesFile): void {
+  writeFileAtomic(filePath, serializeRulesFile(filePath, rulesFile));
+  resetCategorizationRules();
+}
+
+/**
+ * Turn a rule definition into a rule that can be evaluated
+ */
+export function compileRule(definition: RuleDefinition): CategorizationRule {
+  const patterns = definition.patterns?.map((pattern) => new RegExp(pattern, "i"));
+  const { keywords, type, movementTypes, amount, accounts, dates, merchants } = definition;
+
+  const evaluate = (t: ParsedTransaction): RuleEvaluation => {
+    const checks: RuleCheck[] = [];
+    let keyword: string | undefined;
+    let pattern: string | undefined;
+
+    if (type) {
+      checks.push({ condition: "type", passed: t.type === type, detail: `type is ${t.type}, rule wants ${type}` });
+    }
+    if (movementTypes) {
+      checks.push({
+        condition: "movementTypes",
+        passed: isMovementType(t, movementTypes),
+        detail: `movement type is ${t.movementType ? `"${t.movementType}"` : "missing"}, rule wants ${movementTypes.map((m) => `"${m}"`).join(", ")}`,
+      });
+    }
+    if (accounts) {
+      checks.push({
+        condition: "accounts",
+        passed: accounts.includes(t.account),
+        detail: `account is ${t.account}, rule wants ${accounts.join(", ")}`,
+      });
+    }
+    if (amount) {
+      const range = `${amount.min ?? "any"} - ${amount.max ?? "any"}`;
+      checks.push({
+        condition: "amount",
+        passed: (amount.min === undefined || t.amount >= amount.min) && (amount.max === undefined || t.amount <= amount.max),
+        detail: `amount is ${t.amount.toFixed(2)}, rule wants ${range}`,
+      });
+    }
+    if (dates) {
+      checks.push({
+        condition: "dates",
+        passed: (!dates.from || t.date >= dates.from) && (!dates.to || t.date <= dates.to),
+        detail: `date is ${t.date}, rule wants ${dates.from ?? "any"} to ${dates.to ?? "any"}`,
+      });
+    }
+    if (merchants) {
+      const merchant = t.merchant?.toLowerCase();
+      checks.push({
+        condition: "merchants",
+        passed: Boolean(merchant) && merchants.some((m) => m.toLowerCase() === merchant),
+        detail: `merchant is ${t.merchant ? `"${t.merchant}"` : "missing"}, rule wants ${merchants.map((m) => `"${m}"`).join(", ")}`,
+      });
+    }
+    if (keywords || patterns) {
+      keyword = keywords ? findKeyword(t.description, keywords) : undefined;
+      pattern = keyword ? undefined : patterns?.find((p) => p.test(t.description))?.source;
+      const wanted = [...(keywords || []).map((k) => `"${k}"`), ...(patterns || []).map((p) => `/${p.source}/i`)];
+      checks.push({
+        condition: "description",
+        passed: Boolean(keyword || pattern),
+        detail: keyword
+          ? `description contains keyword "${keyword}"`
+          : pattern
+            ? `description matches pattern /${pattern}/i`
+            : `description matches none of ${wanted.join(", ")}`,
+      });
+    }
+
+    return { matched: checks.every((check) => check.passed), keyword, pattern, checks };
+  };
+
+  return {
+    name: definition.name,
+    category: definition.category,
+    match: (t) => evaluate(t).matched,
+    evaluate,
+  };
+}
+
+/**
+ * Load the rules of a rules file in evaluation order
+ */
+export function loadCategorizationRules(filePath: string = getRulesPath()): CategorizationRule[] {
+  return readRulesFile(filePath).rules.map(compileRule);
+}
+
+// Rules from the default rules file, loaded on first use
+let defaultRules: CategorizationRule[] | null = null;
+
 /**
  * Get all categorization rules in evaluation order
  */
 export function getCategorizationRules(): CategorizationRule[] {
-  return [
-    {
-      name: "Salary",
-      category: "salary",
-      match: (t) =>
-        t.type === "income" &&
-        containsAny(t.description, [
-          "payroll",
-          "salary",
-          "paycheck",
-          "direct deposit",
-        ]),
-    },
-    {
-      name: "Rent",
-      category: "rent",
-      match: (t) => containsAny(t.description, ["rent", "lease"]),
-    },
-    {
-      name: "Groceries",
-      category: "groceries",
-      match: (t) =>
-        containsAny(t.description, [
-          "grocery",
-          "market",
-          "supermart",
-          "fresh mart",
-        ]),
-    },
-    {
-      name: "Dining",
-      category: "dining",
-      match: (t) =>
-        containsAny(t.description, [
-          "cafe",
-          "restaurant",
-          "bistro",
-          "diner",
-          "takeout",
-        ]),
-    },
-    {
-      name: "Transport",
-      category: "transport",
-      match: (t) =>
-        containsAny(t.description, [
-          "transit",
-          "metro",
-          "bus",
-          "rail",
-          "uber",
-          "lyft",
-          "fuel",
-          "gas",
-        ]),
-    },
-    {
-      name: "Utilities",
-      category: "utilities",
-      match: (t) =>
-        containsAny(t.description, ["electric", "water", "utility", "internet", "phone"]),
-    },
-    {
-      name: "Subscriptions",
-      category: "subscriptions",
-      match: (t) =>
-        containsAny(t.description, [
-          "subscription",
-          "streaming",
-          "music",
-          "cloud",
-          "software",
-        ]),
-    },
-    {
-      name: "Shopping",
-      category: "shopping",
-      match: (t) =>
-        containsAny(t.description, ["store", "online order", "retail", "shop"]),
-    },
-    {
-      name: "Entertainment",
-      category: "entertainment",
-      match: (t) =>
-        containsAny(t.description, ["cinema", "movie", "concert", "theater", "game"]),
-    },
-    {
-      name: "Health",
-      category: "health",
-      match: (t) =>
-        containsAny(t.description, ["pharmacy", "clinic", "hospital", "dentist"]),
-    },
-    {
-      name: "Travel",
-      category: "travel",
-      match: (t) =>
-        containsAny(t.description, ["airlines", "hotel", "airbnb", "booking"]),
-    },
-    {
-      name: "Education",
-      category: "education",
-      match: (t) =>
-        containsAny(t.description, ["course", "tuition", "academy", "workshop"]),
-    },
-    {
-      name: "Pets",
-      category: "pets",
-      match: (t) => containsAny(t.description, ["pet", "vet", "pet food"]),
-    },
-    {
-      name: "Savings",
-      category: "savings",
-      match: (t) =>
-        containsAny(t.description, ["transfer to savings", "savings transfer"]),
-    },
-  ];
+  if (!defaultRules) {
+    defaultRules = loadCategorizationRules();
+  }
+  return defaultRules;
+}
+
+/**
+ * Forget the loaded rules, so the next use reads the rules file again
+ */
+export function resetCategorizationRules(): void {
+  defaultRules = null;
 }
 
 /**
  * Apply categorization rules to a transaction
- * Returns the category ID, or 'pendiente' if no rule matches
+ * Returns the category ID, or 'pendiente' if no rule matches, and the match that decided it
  */
-export function categorizeTransaction(transaction: ParsedTransaction): string {
+export function categorizeTransactionWithMatch(transaction: ParsedTransaction): { category: string; match?: RuleMatch } {
   const rules = getCategorizationRules();
 
   for (const rule of rules) {
-    if (rule.match(transaction)) {
-      return rule.category;
+    const evaluation = rule.evaluate(transaction);
+    if (evaluation.matched) {
+      const match: RuleMatch = { rule: rule.name };
+      if (evaluation.keyword) match.keyword = evaluation.keyword;
+      if (evaluation.pattern) match.pattern = evaluation.pattern;
+      return { category: rule.category, match };
     }
   }
 
   // Fallback to pendiente if no rule matches
-  return "pendiente";
+  return { category: "pendiente" };
+}
+
+/**
+ * Apply categorization rules to a transaction
+ * Returns the category ID, or 'pendiente' if no rule matches
+ */
+export function categorizeTransaction(transaction: ParsedTransaction): string {
+  return categorizeTransactionWithMatch(transaction).category;
 }
 
 /**
  * Apply categorization rules to an array of transactions
- * Always applies rules, but preserves categoryOverride if set
+ * Always applies rules, but preserves categoryOverride if set, and keeps a category the
+ * classifier set while no rule claims the transaction
  */
 export function applyRulesToTransactions(
   transactions: ParsedTransaction[],
@@ -191,11 +403,15 @@ export function applyRulesToTransactions(
       return transaction;
     }
 
-    // Always apply categorization rules
-    const newCategory = categorizeTransaction(transaction);
+    // Always apply categorization rules, recording which rule decided
+    const { category, match } = categorizeTransactionWithMatch(transaction);
+    if (!match && transaction.categorizedBy?.rule === CLASSIFIER_RULE) {
+      return transaction;
+    }
     return {
       ...transaction,
-      category: newCategory,
+      category,
+      categorizedBy: match,
     };
   });
 }
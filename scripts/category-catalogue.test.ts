@@ -0,0 +1,41 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cpSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyCatalogueChange } from './category-catalogue';
+
+const CONFIG_FILES = ['categories.json', 'categorization-rules.json', 'transactions.json'];
+
+describe('applyCatalogueChange', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  // Work on a copy of the data files, so the tests never touch the real ones
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'category-catalogue-'));
+    CONFIG_FILES.forEach(file => cpSync(join(cwd, 'src', 'config', file), join(dir, 'src', 'config', file)));
+    process.chdir(dir);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses an edit that leaves a rule assigning a category to a type it no longer applies to', () => {
+    const categoriesPath = join(dir, 'src', 'config', 'categories.json');
+    const before = readFileSync(categoriesPath, 'utf-8');
+
+    assert.throws(
+      () => applyCatalogueChange({ action: 'edit', id: 'salary', changes: { types: ['expense'] } }),
+      /would leave the rules invalid[\s\S]*"salary" doesn't apply to income transactions/
+    );
+    assert.equal(readFileSync(categoriesPath, 'utf-8'), before);
+  });
+
+  it('applies an edit the rules still fit', () => {
+    const result = applyCatalogueChange({ action: 'edit', id: 'salary', changes: { name: 'Payroll' } });
+    assert.equal(result.categories.find(c => c.id === 'salary')?.name, 'Payroll');
+  });
+});
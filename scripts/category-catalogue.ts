@@ -0,0 +1,182 @@
+import { Category, CategoryChange, CategoryChangeResult, CategoryFields } from '../src/types/transaction';
+import { PENDING_CATEGORY_ID, validateCategoriesFile } from '../src/config/categories-schema';
+import { readCategoriesFile, writeCategoriesFile, serializeCategoriesFile, getCategoriesPath } from './categories-file';
+import { readRulesFile, serializeRulesFile, validateRulesFile, resetCategorizationRules, getRulesPath } from './categorization-rules';
+import { readTransactionsFile, serializeTransactionsFile, getTransactionsPath } from './transactions-file';
+import { writeFilesAtomic } from './atomic-write';
+
+const EDITABLE_FIELDS: (keyof CategoryFields)[] = ['name', 'icon', 'color', 'parentId', 'types', 'archived'];
+
+/**
+ * Copy one edited field onto a category; cleared fields are dropped rather than stored empty
+ */
+function applyField<K extends keyof CategoryFields>(category: Category, changes: CategoryFields, field: K) {
+  if (!(field in changes)) return;
+  const value = changes[field];
+  if (value === undefined || value === '' || value === false || (Array.isArray(value) && value.length === 0)) {
+    delete (category as CategoryFields)[field];
+  } else {
+    category[field] = value as Category[K];
+  }
+}
+
+function findCategory(categories: Category[], id: string): Category {
+  const category = categories.find(c => c.id === id);
+  if (!category) {
+    throw new Error(`Category not found: ${id}`);
+  }
+  return category;
+}
+
+function assertNotPending(id: string, action: string) {
+  if (id === PENDING_CATEGORY_ID) {
+    throw new Error(`The "${PENDING_CATEGORY_ID}" category can't be ${action}`);
+  }
+}
+
+/**
+ * Apply a change to the categories file. Renames and merges also rewrite the categories of
+ * transactions, rules and subcategories. Everything is validated before anything is written,
+ * and the files are written together, so a failure leaves all of them as they were
+ */
+export function applyCatalogueChange(change: CategoryChange, options: { dryRun?: boolean } = {}): CategoryChangeResult {
+  const categoriesPath = getCategoriesPath();
+  const categoriesFile = readCategoriesFile(categoriesPath);
+  let categories = categoriesFile.categories.map(c => ({ ...c }));
+  const result: CategoryChangeResult = { categories, transactionsUpdated: 0, rulesUpdated: 0, subcategoriesUpdated: 0, warnings: [] };
+
+  // Category IDs to rewrite in transactions and rules: old ID → new ID
+  let replace: { from: string; to: string } | null = null;
+
+  switch (change.action) {
+    case 'create': {
+      if (categories.some(c => c.id === change.category.id)) {
+        throw new Error(`Category already exists: ${change.category.id}`);
+      }
+      categories.push({ ...change.category });
+      break;
+    }
+    case 'edit': {
+      const category = findCategory(categories, change.id);
+      EDITABLE_FIELDS.forEach(field => applyField(category, change.changes, field));
+      break;
+    }
+    case 'archive':
+    case 'unarchive': {
+      assertNotPending(change.id, 'archived');
+      const category = findCategory(categories, change.id);
+      if (change.action === 'archive') {
+        category.archived = true;
+        const rules = readRulesFile(getRulesPath()).rules.filter(rule => rule.category === change.id);
+        if (rules.length > 0) {
+          result.warnings.push(`${rules.length} rule(s) still assign ${change.id}: ${rules.map(rule => rule.name).join(', ')}`);
+        }
+      } else {
+        delete category.archived;
+      }
+      break;
+    }
+    case 'rename': {
+      assertNotPending(change.id, 'renamed');
+      const category = findCategory(categories, change.id);
+      if (categories.some(c => c.id === change.newId)) {
+        throw new Error(`Category already exists: ${change.newId}`);
+      }
+      category.id = change.newId;
+      replace = { from: change.id, to: change.newId };
+      break;
+    }
+    case 'merge': {
+      assertNotPending(change.id, 'merged');
+      findCategory(categories, change.id);
+      const into = findCategory(categories, change.into);
+      if (change.id === change.into) {
+        throw new Error("A category can't be merged into itself");
+      }
+      for (let parentId = into.parentId; parentId; parentId = categories.find(c => c.id === parentId)?.parentId) {
+        if (parentId === change.id) {
+          throw new Error(`Can't merge ${change.id} into its own subcategory ${change.into}`);
+        }
+      }
+      const mismatched = readRulesFile(getRulesPath()).rules.filter(
+        rule => rule.category === change.id && rule.type && into.types && !into.types.includes(rule.type)
+      );
+      if (mismatched.length > 0) {
+        throw new Error(`${change.into} doesn't apply to the type of rule(s) ${mismatched.map(rule => rule.name).join(', ')}`);
+      }
+      categories = categories.filter(c => c.id !== change.id);
+      result.categories = categories;
+      replace = { from: change.id, to: change.into };
+      break;
+    }
+    default:
+      throw new Error(`Unknown catalogue action: ${(change as { action: string }).action}`);
+  }
+
+  if (replace) {
+    const { from, to } = replace;
+    categories.forEach(c => {
+      if (c.parentId === from) {
+        c.parentId = to;
+        result.subcategoriesUpdated++;
+      }
+    });
+  }
+
+  const { problems } = validateCategoriesFile({ ...categoriesFile, categories });
+  if (problems.length > 0) {
+    throw new Error(`The change would leave the catalogue invalid:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+
+  // The rules must still fit an edited category, e.g. its types
+  if (change.action === 'edit') {
+    const rulesProblems = validateRulesFile(readRulesFile(getRulesPath()), categories).problems;
+    if (rulesProblems.length > 0) {
+      throw new Error(`The change would leave the rules invalid:\n${rulesProblems.map(p => `  - ${p}`).join('\n')}`);
+    }
+  }
+
+  if (!replace) {
+    if (!options.dryRun) {
+      writeCategoriesFile(categoriesPath, { ...categoriesFile, categories });
+    }
+    return result;
+  }
+
+  const { from, to } = replace;
+  const transactionsPath = getTransactionsPath();
+  const transactions = readTransactionsFile(transactionsPath).map(t => {
+    if (t.category !== from && t.categoryOverride !== from) return t;
+    result.transactionsUpdated++;
+    return {
+      ...t,
+      category: t.category === from ? to : t.category,
+      categoryOverride: t.categoryOverride === from ? to : t.categoryOverride,
+    };
+  });
+
+  const rulesPath = getRulesPath();
+  const rulesFile = readRulesFile(rulesPath);
+  const rules = rulesFile.rules.map(rule => {
+    if (rule.category !== from) return rule;
+    result.rulesUpdated++;
+    return { ...rule, category: to };
+  });
+
+  // Validate every file before writing any, so a dry run catches what would fail too;
+  // the rules are checked against the new catalogue
+  const files = [{ path: categoriesPath, content: serializeCategoriesFile(categoriesPath, { ...categoriesFile, categories }) }];
+  if (result.rulesUpdated > 0) {
+    files.push({ path: rulesPath, content: serializeRulesFile(rulesPath, { ...rulesFile, rules }, categories) });
+  }
+  if (result.transactionsUpdated > 0) {
+    files.push({ path: transactionsPath, content: serializeTransactionsFile(transactionsPath, transactions) });
+  }
+  if (options.dryRun) {
+    return result;
+  }
+
+  writeFilesAtomic(files);
+  resetCategorizationRules();
+  return result;
+}
@@ -0,0 +1,139 @@
+import { CLASSIFIER_RULE, ParsedTransaction } from './categorization-rules';
+
+export { CLASSIFIER_RULE };
+
+/**
+ * Minimum confidence for the fallback stage to apply a suggestion
+ */
+export const MIN_CONFIDENCE = 0.8;
+
+/**
+ * Upper bounds of the amount buckets used as a feature
+ */
+const AMOUNT_BUCKETS = [10, 50, 200, 1000];
+
+type ClassifiableTransaction = Pick<ParsedTransaction, 'description' | 'amount' | 'type' | 'category' | 'categoryOverride' | 'categorizedBy'>;
+
+export interface CategorySuggestion {
+  category: string;
+  confidence: number; // Posterior probability of the suggested category (0-1)
+}
+
+/**
+ * Multinomial naive Bayes model over description tokens, amount bucket and type
+ */
+export interface CategoryClassifier {
+  categories: Map<string, { documents: number; featureCounts: Map<string, number>; totalFeatures: number }>;
+  vocabulary: Set<string>;
+  documents: number;
+}
+
+function getEffectiveCategory(t: ClassifiableTransaction): string {
+  return t.categoryOverride && t.categoryOverride.trim() ? t.categoryOverride : t.category;
+}
+
+/**
+ * Words of a description: lowercased, without accents, numbers or single characters
+ */
+export function tokenizeDescription(description: string): string[] {
+  return description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !/^\d+$/.test(token));
+}
+
+/**
+ * Features of a transaction: description words, an amount bucket and the type
+ */
+function extractFeatures(t: Pick<ParsedTransaction, 'description' | 'amount' | 'type'>): string[] {
+  const tokens = tokenizeDescription(t.description);
+  const bucket = AMOUNT_BUCKETS.findIndex(limit => t.amount < limit);
+  return [
+    ...tokens.map(token => `word:${token}`),
+    `amount:${bucket === -1 ? AMOUNT_BUCKETS.length : bucket}`,
+    `type:${t.type}`,
+  ];
+}
+
+/**
+ * Train on every transaction with an effective category, manual overrides included
+ * Pending transactions and those the classifier itself categorized are left out
+ */
+export function trainClassifier(transactions: ClassifiableTransaction[]): CategoryClassifier {
+  const classifier: CategoryClassifier = { categories: new Map(), vocabulary: new Set(), documents: 0 };
+
+  transactions.forEach(t => {
+    const category = getEffectiveCategory(t);
+    if (category === 'pendiente' || (t.categorizedBy?.rule === CLASSIFIER_RULE && !t.categoryOverride?.trim())) {
+      return;
+    }
+
+    const stats = classifier.categories.get(category) || { documents: 0, featureCounts: new Map(), totalFeatures: 0 };
+    stats.documents++;
+    extractFeatures(t).forEach(feature => {
+      stats.featureCounts.set(feature, (stats.featureCounts.get(feature) || 0) + 1);
+      stats.totalFeatures++;
+      classifier.vocabulary.add(feature);
+    });
+    classifier.categories.set(category, stats);
+    classifier.documents++;
+  });
+
+  return classifier;
+}
+
+/**
+ * Suggest the most likely category for a transaction, or null when the model is empty
+ */
+export function suggestCategory(
+  classifier: CategoryClassifier,
+  t: Pick<ParsedTransaction, 'description' | 'amount' | 'type'>
+): CategorySuggestion | null {
+  if (classifier.documents === 0) return null;
+
+  // Features never seen in training carry no information
+  const features = extractFeatures(t).filter(feature => classifier.vocabulary.has(feature));
+  const vocabularySize = classifier.vocabulary.size;
+
+  // Log-probabilities with Laplace smoothing
+  const scores: Array<{ category: string; score: number }> = [];
+  classifier.categories.forEach((stats, category) => {
+    let score = Math.log(stats.documents / classifier.documents);
+    features.forEach(feature => {
+      score += Math.log(((stats.featureCounts.get(feature) || 0) + 1) / (stats.totalFeatures + vocabularySize));
+    });
+    scores.push({ category, score });
+  });
+
+  // Normalize to posterior probabilities
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const total = scores.reduce((sum, s) => sum + Math.exp(s.score - best.score), 0);
+  return { category: best.category, confidence: 1 / total };
+}
+
+/**
+ * Fallback stage after the rules: give pending transactions the suggested category
+ * when the classifier is confident enough, recording it in `categorizedBy`
+ */
+export function applyClassifierToPending<T extends ParsedTransaction>(
+  transactions: T[],
+  classifier: CategoryClassifier,
+  minConfidence: number = MIN_CONFIDENCE
+): T[] {
+  return transactions.map(t => {
+    if (t.category !== 'pendiente' || (t.categoryOverride && t.categoryOverride.trim())) {
+      return t;
+    }
+    const suggestion = suggestCategory(classifier, t);
+    if (!suggestion || suggestion.confidence < minConfidence) {
+      return t;
+    }
+    return {
+      ...t,
+      category: suggestion.category,
+      categorizedBy: { rule: CLASSIFIER_RULE, confidence: Math.round(suggestion.confidence * 100) / 100 },
+    };
+  });
+}
@@ -1,177 +1,259 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
-
-interface Transaction {
-  id: string;
-  date: string;
-  description: string;
-  descriptionOverride?: string;
-  amount: number;
-  category: string;
-  categoryOverride?: string;
-  account: string;
-  type: 'income' | 'expense';
+import { createInterface } from 'readline';
+import { PENDING_CATEGORY_ID } from '../src/config/categories-schema';
+import { ParsedTransaction } from './categorization-rules';
+import { readCategoriesFile } from './categories-file';
+import { readTransactionsFile, writeTransactionsFile, getTransactionsPath } from './transactions-file';
+import { backupFile } from './atomic-write';
+import { EXIT_OK, EXIT_FINDINGS, EXIT_ERROR } from './cli';
+import {
+  CategoryFix,
+  CategoryResolution,
+  InvalidCategory,
+  RERUN_RULES,
+  findInvalidCategories,
+  fixInvalidCategories,
+  readCategoryMapping,
+  writeFixReport,
+} from './invalid-categories';
+
+const USAGE = `Usage:
+  check-invalid-categories [--list] [--json]
+  check-invalid-categories --fix [--map <file>] [--rerun-rules | --reset] [--dry-run] [--json]
+
+  --fix           Repair invalid categories; asks for each invalid ID unless --map, --rerun-rules or --reset is given
+  --map <file>    JSON object from invalid ID to a valid ID, or "${RERUN_RULES}" to re-run the rules
+  --rerun-rules   Re-run the rules for rows whose invalid ID isn't mapped
+  --reset         Reset rows whose invalid ID isn't mapped to ${PENDING_CATEGORY_ID}
+  --dry-run       Show the fix without writing
+  --json          Print the result as JSON
+
+Exit codes: ${EXIT_OK} no invalid categories left, ${EXIT_FINDINGS} invalid categories remain, ${EXIT_ERROR} error`;
+
+function fail(message: string, json: boolean): never {
+  if (json) {
+    console.log(JSON.stringify({ error: message }, null, 2));
+  } else {
+    console.error(message);
+  }
+  process.exit(EXIT_ERROR);
+}
+
+function countByCategory(invalid: InvalidCategory[]): Map<string, number> {
+  const byCategory = new Map<string, number>();
+  invalid.forEach(item => byCategory.set(item.invalidCategory, (byCategory.get(item.invalidCategory) || 0) + 1));
+  // Sort by count descending
+  return new Map(Array.from(byCategory.entries()).sort((a, b) => b[1] - a[1]));
+}
+
+function printInvalid(invalid: InvalidCategory[]) {
+  invalid.forEach((item, index) => {
+    const t = item.transaction;
+    const effectiveDescription = t.descriptionOverride || t.description;
+    const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+    console.log(
+      `${(index + 1).toString().padStart(4)}. [${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ` +
+      `Field: ${item.field.padEnd(15)} Invalid: "${item.invalidCategory}"  ${effectiveDescription}`
+    );
+  });
 }
 
 /**
- * Get valid category IDs from categories config
+ * Ask what to do with each invalid category ID
  */
-function getValidCategoryIds(): string[] {
-  try {
-    // Read the categories file
-    const categoriesPath = join(process.cwd(), 'src', 'config', 'categories.ts');
-    if (!existsSync(categoriesPath)) {
-      console.error('Categories file not found:', categoriesPath);
-      process.exit(1);
-    }
+async function askResolutions(byCategory: Map<string, number>, validCategoryIds: string[]): Promise<Map<string, CategoryResolution>> {
+  const resolutions = new Map<string, CategoryResolution>();
+  console.log(`\nFor each invalid ID, type a valid category ID, "r" to re-run the rules, "p" to reset to ${PENDING_CATEGORY_ID} or Enter to skip`);
+  console.log(`Valid IDs: ${validCategoryIds.join(', ')}\n`);
 
-    const content = readFileSync(categoriesPath, 'utf-8');
-    
-    // Extract category IDs using regex
-    // Look for patterns like: id: "category-id" or id: 'category-id'
-    const idMatches = content.matchAll(/id:\s*["']([^"']+)["']/g);
-    const categoryIds: string[] = [];
-    
-    for (const match of idMatches) {
-      categoryIds.push(match[1]);
+  // Read answers through the line iterator so piped answers are buffered, not dropped
+  const rl = createInterface({ input: process.stdin });
+  const answers = rl[Symbol.asyncIterator]();
+  try {
+    for (const [category, count] of byCategory) {
+      for (;;) {
+        process.stdout.write(`  ${category} (${count} row(s)) → `);
+        const next = await answers.next();
+        // End of input: skip this and the remaining IDs
+        const answer = next.done ? '' : String(next.value).trim();
+        if (next.done) process.stdout.write('\n');
+        if (answer === '') break;
+        if (answer === 'r' || answer === 'p') {
+          resolutions.set(category, answer === 'r' ? RERUN_RULES : PENDING_CATEGORY_ID);
+          break;
+        }
+        if (validCategoryIds.includes(answer)) {
+          resolutions.set(category, answer);
+          break;
+        }
+        console.log(`    Unknown category "${answer}"`);
+      }
     }
-    
-    // Also include special categories that might be used
-    categoryIds.push('pendiente', 'other');
-    
-    // Remove duplicates and sort
-    return [...new Set(categoryIds)].sort();
-  } catch (error) {
-    console.error(`Error reading categories file: ${error}`);
-    process.exit(1);
+  } finally {
+    rl.close();
   }
+  return resolutions;
+}
+
+function describeFix(fix: CategoryFix): string {
+  const how = fix.how === 'mapped' ? '' : fix.how === 'rules' ? '  (rules)' : '  (reset)';
+  return `  [${fix.id}] ${fix.field.padEnd(16)} ${fix.from} → ${fix.to ?? '(removed)'}${how}`;
 }
 
 /**
- * Parse transactions from JSON file
+ * Main function
  */
-function parseTransactions(filePath: string): Transaction[] {
-  if (!existsSync(filePath)) {
-    console.error('Transactions file not found:', filePath);
-    process.exit(1);
+async function main() {
+  const args = process.argv.slice(2);
+  const listInvalid = args.includes('--list') || args.includes('-l');
+  const json = args.includes('--json');
+  const fix = args.includes('--fix');
+  const dryRun = args.includes('--dry-run');
+  const rerunRules = args.includes('--rerun-rules');
+  const reset = args.includes('--reset');
+  const mapIndex = args.indexOf('--map');
+  const mapPath = mapIndex !== -1 ? args[mapIndex + 1] : undefined;
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+  if (mapIndex !== -1 && (!mapPath || mapPath.startsWith('--'))) {
+    fail('--map needs a file', json);
+  }
+  if (rerunRules && reset) {
+    fail('Use either --rerun-rules or --reset', json);
+  }
+  if (!fix && (mapPath || rerunRules || reset || dryRun)) {
+    fail(`--map, --rerun-rules, --reset and --dry-run only apply with --fix\n\n${USAGE}`, json);
+  }
+
+  if (!json) {
+    console.log('Loading categories and transactions...\n');
   }
 
+  const transactionsPath = getTransactionsPath();
+  let validCategoryIds: string[];
+  let transactions: ParsedTransaction[];
   try {
-    const content = readFileSync(filePath, 'utf-8');
-    const jsonData = JSON.parse(content) as any[];
-    
-    return jsonData.map(item => ({
-      id: item.id,
-      date: item.date,
-      description: item.description,
-      descriptionOverride: item.descriptionOverride,
-      amount: item.amount,
-      category: item.category,
-      categoryOverride: item.categoryOverride,
-      account: item.account,
-      type: item.type as 'income' | 'expense',
-    }));
+    validCategoryIds = readCategoriesFile().categories.map(c => c.id).sort();
+    transactions = readTransactionsFile(transactionsPath);
   } catch (error) {
-    console.error(`Error parsing transactions file: ${error}`);
-    process.exit(1);
+    fail(error instanceof Error ? error.message : String(error), json);
   }
-}
 
-/**
- * Get effective category (categoryOverride || category)
- */
-function getEffectiveCategory(transaction: Transaction): string {
-  return transaction.categoryOverride || transaction.category;
-}
+  const invalid = findInvalidCategories(transactions, validCategoryIds);
+  const byCategory = countByCategory(invalid);
 
-/**
- * Main function
- */
-function main() {
-  const transactionsPath = join(process.cwd(), 'src', 'config', 'transactions.json');
-  const listInvalid = process.argv.includes('--list') || process.argv.includes('-l');
-  
-  console.log('Loading categories and transactions...\n');
-  
-  const validCategoryIds = getValidCategoryIds();
-  const transactions = parseTransactions(transactionsPath);
-  
-  // Find transactions with invalid categories
-  const invalidTransactions: Array<{
-    transaction: Transaction;
-    invalidCategory: string;
-    field: 'category' | 'categoryOverride';
-  }> = [];
-  
-  transactions.forEach(t => {
-    // Check main category
-    if (!validCategoryIds.includes(t.category)) {
-      invalidTransactions.push({
-        transaction: t,
-        invalidCategory: t.category,
-        field: 'category',
-      });
+  if (!fix) {
+    if (json) {
+      console.log(JSON.stringify({
+        totalTransactions: transactions.length,
+        validCategoryIds: validCategoryIds.length,
+        invalidCount: invalid.length,
+        invalidCategories: Object.fromEntries(byCategory),
+        invalid: invalid.map(item => ({ id: item.transaction.id, field: item.field, category: item.invalidCategory })),
+      }, null, 2));
+      process.exit(invalid.length > 0 ? EXIT_FINDINGS : EXIT_OK);
     }
-    
-    // Check categoryOverride if it exists
-    if (t.categoryOverride && t.categoryOverride.trim() && !validCategoryIds.includes(t.categoryOverride)) {
-      invalidTransactions.push({
-        transaction: t,
-        invalidCategory: t.categoryOverride,
-        field: 'categoryOverride',
-      });
+
+    console.log('🔍 Invalid Category Check');
+    console.log('═'.repeat(60));
+    console.log(`Total transactions:        ${transactions.length.toLocaleString()}`);
+    console.log(`Valid category IDs:       ${validCategoryIds.length}`);
+    console.log(`Transactions with invalid categories: ${invalid.length.toLocaleString()}`);
+    console.log('═'.repeat(60));
+
+    if (invalid.length === 0) {
+      console.log('\n✅ All transactions have valid categories!');
+      return;
     }
-  });
-  
-  const invalidCount = invalidTransactions.length;
-  
-  // Display statistics
-  console.log('🔍 Invalid Category Check');
-  console.log('═'.repeat(60));
-  console.log(`Total transactions:        ${transactions.length.toLocaleString()}`);
-  console.log(`Valid category IDs:       ${validCategoryIds.length}`);
-  console.log(`Transactions with invalid categories: ${invalidCount.toLocaleString()}`);
-  console.log('═'.repeat(60));
-  
-  if (invalidCount > 0) {
-    // Group by invalid category
-    const byCategory = new Map<string, number>();
-    invalidTransactions.forEach(item => {
-      const count = byCategory.get(item.invalidCategory) || 0;
-      byCategory.set(item.invalidCategory, count + 1);
-    });
-    
+
     console.log('\n📊 Invalid Categories Found:');
     console.log('─'.repeat(60));
-    Array.from(byCategory.entries())
-      .sort((a, b) => b[1] - a[1]) // Sort by count descending
-      .forEach(([category, count]) => {
-        console.log(`  ${category.padEnd(30)} ${count.toString().padStart(5)} transaction(s)`);
-      });
+    byCategory.forEach((count, category) => {
+      console.log(`  ${category.padEnd(30)} ${count.toString().padStart(5)} transaction(s)`);
+    });
     console.log('─'.repeat(60));
-    
+
     // Optionally list invalid transactions
     if (listInvalid) {
-      console.log(`\n📋 Transactions with Invalid Categories (showing all ${invalidCount}):`);
+      console.log(`\n📋 Transactions with Invalid Categories (showing all ${invalid.length}):`);
       console.log('─'.repeat(100));
-      invalidTransactions.forEach((item, index) => {
-        const t = item.transaction;
-        const effectiveDescription = t.descriptionOverride || t.description;
-        const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
-        console.log(
-          `${(index + 1).toString().padStart(4)}. [${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ` +
-          `Field: ${item.field.padEnd(15)} Invalid: "${item.invalidCategory}"  ${effectiveDescription}`
-        );
-      });
+      printInvalid(invalid);
       console.log('─'.repeat(100));
     } else {
       console.log(`\n💡 Tip: Run with --list or -l to see all transactions with invalid categories`);
     }
-  } else {
-    console.log('\n✅ All transactions have valid categories!');
+    console.log('💡 Run with --fix to repair them');
+    process.exit(EXIT_FINDINGS);
+  }
+
+  // Fix mode: mapped IDs first, then --rerun-rules or --reset for the rest, else ask
+  let resolutions = new Map<string, CategoryResolution>();
+  if (mapPath) {
+    try {
+      resolutions = readCategoryMapping(mapPath, validCategoryIds);
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error), json);
+    }
   }
+  if (rerunRules || reset) {
+    byCategory.forEach((_count, category) => {
+      if (!resolutions.has(category)) resolutions.set(category, rerunRules ? RERUN_RULES : PENDING_CATEGORY_ID);
+    });
+  } else if (!mapPath && invalid.length > 0) {
+    if (json || !process.stdin.isTTY) {
+      fail('Interactive mapping needs a terminal; pass --map, --rerun-rules or --reset', json);
+    }
+    console.log(`🛠️  ${invalid.length} invalid categor${invalid.length === 1 ? 'y' : 'ies'} to fix`);
+    resolutions = await askResolutions(byCategory, validCategoryIds);
+  }
+
+  const result = fixInvalidCategories(transactions, invalid, resolutions);
+  const remaining = findInvalidCategories(result.transactions, validCategoryIds);
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  const report = {
+    fixedAt: new Date().toISOString(),
+    dryRun,
+    resolutions: Object.fromEntries(resolutions),
+    fixes: result.fixes,
+    remaining: remaining.map(item => ({ id: item.transaction.id, field: item.field, category: item.invalidCategory })),
+  };
+
+  let backupPath: string | undefined;
+  let reportPath: string | undefined;
+  if (!dryRun && result.fixes.length > 0) {
+    try {
+      backupPath = backupFile(transactionsPath, timestamp);
+      writeTransactionsFile(transactionsPath, result.transactions);
+      reportPath = writeFixReport(backupPath, report);
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error), json);
+    }
+  }
+
+  const exitCode = remaining.length > 0 ? EXIT_FINDINGS : EXIT_OK;
+  if (json) {
+    console.log(JSON.stringify({ ...report, backup: backupPath, report: reportPath }, null, 2));
+    process.exit(exitCode);
+  }
+
+  console.log(`\n🛠️  Invalid Category Fix${dryRun ? ' (dry run)' : ''}`);
+  console.log('─'.repeat(100));
+  if (result.fixes.length === 0) {
+    console.log('  Nothing to change');
+  }
+  result.fixes.forEach(item => console.log(describeFix(item)));
+  console.log('─'.repeat(100));
+  console.log(`${dryRun ? 'Would fix' : 'Fixed'} ${result.fixes.length} field(s); ${remaining.length} invalid categor${remaining.length === 1 ? 'y' : 'ies'} left`);
+  if (dryRun) {
+    console.log('\nDry run: the transactions file was not modified');
+  } else if (backupPath) {
+    console.log(`\n💾 Backup: ${backupPath}`);
+    console.log(`📝 Report: ${reportPath}`);
+  }
+  process.exit(exitCode);
 }
 
 // Run if executed directly
 main();
-
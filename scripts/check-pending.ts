@@ -1,78 +1,55 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
-
-interface Transaction {
-  id: string;
-  date: string;
-  description: string;
-  descriptionOverride?: string;
-  amount: number;
-  category: string;
-  categoryOverride?: string;
-  account: string;
-  type: 'income' | 'expense';
-}
-
-/**
- * Parse transactions from JSON file
- */
-function parseTransactions(filePath: string): Transaction[] {
-  if (!existsSync(filePath)) {
-    console.error('Transactions file not found:', filePath);
-    process.exit(1);
-  }
-
-  try {
-    const content = readFileSync(filePath, 'utf-8');
-    const jsonData = JSON.parse(content) as any[];
-    
-    return jsonData.map(item => ({
-      id: item.id,
-      date: item.date,
-      description: item.description,
-      descriptionOverride: item.descriptionOverride,
-      amount: item.amount,
-      category: item.category,
-      categoryOverride: item.categoryOverride,
-      account: item.account,
-      type: item.type as 'income' | 'expense',
-    }));
-  } catch (error) {
-    console.error(`Error parsing transactions file: ${error}`);
-    process.exit(1);
-  }
-}
+import { trainClassifier, suggestCategory } from './category-classifier';
+import { ParsedTransaction, getCategorizationRules } from './categorization-rules';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+import { runTriage, isPending } from './pending-triage';
 
 /**
  * Get effective category (categoryOverride || category)
  */
-function getEffectiveCategory(transaction: Transaction): string {
+function getEffectiveCategory(transaction: ParsedTransaction): string {
   return transaction.categoryOverride || transaction.category;
 }
 
 /**
  * Get effective description (descriptionOverride || description)
  */
-function getEffectiveDescription(transaction: Transaction): string {
+function getEffectiveDescription(transaction: ParsedTransaction): string {
   return transaction.descriptionOverride || transaction.description;
 }
 
 /**
  * Main function
  */
-function main() {
-  const transactionsPath = join(process.cwd(), 'src', 'config', 'transactions.json');
+async function main() {
+  const transactionsPath = getTransactionsPath();
   const listPending = process.argv.includes('--list') || process.argv.includes('-l');
+  const triage = process.argv.includes('--triage') || process.argv.includes('-t');
   
   console.log('Loading transactions...\n');
   
-  const transactions = parseTransactions(transactionsPath);
+  if (triage) {
+    try {
+      // Fail on an invalid rules file before starting the session
+      getCategorizationRules();
+      await runTriage(transactionsPath, readTransactionsFile(transactionsPath));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    return;
+  }
+  
+  let transactions: ParsedTransaction[];
+  try {
+    transactions = readTransactionsFile(transactionsPath);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
   const total = transactions.length;
   
   // Filter transactions that are pending AND have no categoryOverride
-  const pendingTransactions = transactions.filter(t => 
-    t.category === 'pendiente' && (!t.categoryOverride || !t.categoryOverride.trim())
-  );
+  const pendingTransactions = transactions.filter(isPending);
   
   // Count transactions with categoryOverride (these are manually overridden)
   const overrideCount = transactions.filter(t => 
@@ -101,12 +78,17 @@ function main() {
   
   // Optionally list pending transactions (20 most recent)
   if (listPending && pendingCount > 0) {
+    // Suggest a category for each one, learned from the categorized transactions
+    const classifier = trainClassifier(transactions);
+    
     console.log(`\n📋 Most Recent Pending Transactions (showing ${sortedPending.length} of ${pendingCount}):`);
     console.log('─'.repeat(100));
     sortedPending.forEach((t, index) => {
       const effectiveDescription = getEffectiveDescription(t);
       const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
-      console.log(`${(index + 1).toString().padStart(4)}. [${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${effectiveDescription}`);
+      const suggestion = suggestCategory(classifier, t);
+      const suggestionStr = suggestion ? `  💡 ${suggestion.category} (${(suggestion.confidence * 100).toFixed(0)}%)` : '';
+      console.log(`${(index + 1).toString().padStart(4)}. [${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${effectiveDescription}${suggestionStr}`);
     });
     console.log('─'.repeat(100));
     if (pendingCount > 20) {
@@ -115,7 +97,7 @@ function main() {
   } else if (listPending && pendingCount === 0) {
     console.log('\n✅ No pending transactions!');
   } else if (pendingCount > 0) {
-    console.log(`\n💡 Tip: Run with --list or -l to see the 20 most recent pending transactions`);
+    console.log(`\n💡 Tip: Run with --list or -l to see the 20 most recent pending transactions, or --triage or -t to categorize them`);
   }
 }
 
@@ -0,0 +1,198 @@
+import {
+  CategorizationRule,
+  ParsedTransaction,
+  RuleDefinition,
+  compileRule,
+  readRulesFile,
+  getRulesPath,
+} from './categorization-rules';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+import { EXIT_ERROR, isMainModule } from './cli';
+
+export interface RuleReport {
+  rule: CategorizationRule;
+  definition: RuleDefinition;
+  matches: ParsedTransaction[]; // Every transaction the rule matches, regardless of order
+  claims: ParsedTransaction[]; // Transactions where it is the first rule to match
+  claimedBy: Map<string, number>; // For its other matches: the earlier rule that took them
+  contradictions: ParsedTransaction[]; // Claimed transactions whose manual override says otherwise
+}
+
+interface AmbiguousKeyword {
+  keyword: string;
+  rule: string;
+  categories: Map<string, number>;
+}
+
+function getEffectiveCategory(t: ParsedTransaction): string {
+  return t.categoryOverride && t.categoryOverride.trim() ? t.categoryOverride : t.category;
+}
+
+function formatTransaction(t: ParsedTransaction): string {
+  const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+  return `[${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${t.descriptionOverride || t.description}`;
+}
+
+/**
+ * Run every rule against every transaction
+ */
+export function analyzeRules(definitions: RuleDefinition[], transactions: ParsedTransaction[]): RuleReport[] {
+  const reports: RuleReport[] = definitions.map(definition => ({
+    rule: compileRule(definition),
+    definition,
+    matches: [],
+    claims: [],
+    claimedBy: new Map(),
+    contradictions: [],
+  }));
+
+  transactions.forEach(t => {
+    let first: RuleReport | null = null;
+    for (const report of reports) {
+      if (!report.rule.match(t)) continue;
+      report.matches.push(t);
+      if (!first) {
+        first = report;
+        report.claims.push(t);
+        const override = t.categoryOverride?.trim();
+        if (override && override !== report.rule.category) {
+          report.contradictions.push(t);
+        }
+      } else {
+        report.claimedBy.set(first.rule.name, (report.claimedBy.get(first.rule.name) || 0) + 1);
+      }
+    }
+  });
+
+  return reports;
+}
+
+/**
+ * Find keywords whose matching transactions end up in more than one category
+ */
+function findAmbiguousKeywords(definitions: RuleDefinition[], transactions: ParsedTransaction[]): AmbiguousKeyword[] {
+  const ambiguous: AmbiguousKeyword[] = [];
+
+  definitions.forEach(definition => {
+    definition.keywords?.forEach(keyword => {
+      const lowerKeyword = keyword.toLowerCase();
+      const categories = new Map<string, number>();
+      transactions
+        .filter(t => t.description.toLowerCase().includes(lowerKeyword))
+        .forEach(t => {
+          const category = getEffectiveCategory(t);
+          categories.set(category, (categories.get(category) || 0) + 1);
+        });
+      if (categories.size > 1) {
+        ambiguous.push({ keyword, rule: definition.name, categories });
+      }
+    });
+  });
+
+  return ambiguous;
+}
+
+/**
+ * Main function
+ */
+function main() {
+  const listDetails = process.argv.includes('--list') || process.argv.includes('-l');
+
+  console.log('Loading rules and transactions...\n');
+
+  let definitions: RuleDefinition[];
+  let transactions: ParsedTransaction[];
+  try {
+    definitions = readRulesFile(getRulesPath()).rules;
+    transactions = readTransactionsFile(getTransactionsPath());
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(EXIT_ERROR);
+  }
+
+  const reports = analyzeRules(definitions, transactions);
+  const neverMatching = reports.filter(r => r.matches.length === 0);
+  const shadowed = reports.filter(r => r.matches.length > 0 && r.claims.length === 0);
+  const ambiguousKeywords = findAmbiguousKeywords(definitions, transactions);
+  const contradicted = reports.filter(r => r.contradictions.length > 0);
+  const unclaimed = transactions.length - reports.reduce((sum, r) => sum + r.claims.length, 0);
+
+  // Display statistics
+  console.log('📐 Categorization Rules Check');
+  console.log('═'.repeat(60));
+  console.log(`Total transactions:        ${transactions.length.toLocaleString()}`);
+  console.log(`Rules:                     ${reports.length}`);
+  console.log(`Matched by no rule:        ${unclaimed.toLocaleString()}`);
+  console.log(`Rules that never match:    ${neverMatching.length}`);
+  console.log(`Fully shadowed rules:      ${shadowed.length}`);
+  console.log(`Ambiguous keywords:        ${ambiguousKeywords.length}`);
+  console.log(`Rules contradicted by overrides: ${contradicted.length}`);
+  console.log('═'.repeat(60));
+
+  console.log('\n📊 Transactions Claimed per Rule:');
+  console.log('─'.repeat(100));
+  reports.forEach((report, index) => {
+    const contradictions = report.contradictions.length > 0 ? `  ${report.contradictions.length} overridden` : '';
+    console.log(
+      `${(index + 1).toString().padStart(4)}. ${report.rule.name.padEnd(30)} → ${report.rule.category.padEnd(15)} ` +
+      `${report.claims.length.toString().padStart(5)} claimed ${report.matches.length.toString().padStart(5)} matched${contradictions}`
+    );
+  });
+  console.log('─'.repeat(100));
+
+  if (neverMatching.length > 0) {
+    console.log('\n🚫 Rules That Never Match:');
+    console.log('─'.repeat(100));
+    neverMatching.forEach(report => console.log(`  ${report.rule.name} → ${report.rule.category}`));
+    console.log('─'.repeat(100));
+  }
+
+  if (shadowed.length > 0) {
+    console.log('\n🌘 Rules Fully Shadowed by Earlier Rules:');
+    console.log('─'.repeat(100));
+    shadowed.forEach(report => {
+      const by = Array.from(report.claimedBy.entries()).map(([name, count]) => `${name} (${count})`).join(', ');
+      console.log(`  ${report.rule.name} → ${report.rule.category}: all ${report.matches.length} match(es) taken by ${by}`);
+    });
+    console.log('─'.repeat(100));
+  }
+
+  if (ambiguousKeywords.length > 0) {
+    console.log('\n🔀 Keywords Matching Transactions in Several Categories:');
+    console.log('─'.repeat(100));
+    ambiguousKeywords.forEach(item => {
+      const categories = Array.from(item.categories.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([category, count]) => `${category} ${count}`)
+        .join(', ');
+      console.log(`  "${item.keyword}" (${item.rule}): ${categories}`);
+    });
+    console.log('─'.repeat(100));
+  }
+
+  if (contradicted.length > 0) {
+    console.log('\n✋ Manual Overrides Contradicting a Rule:');
+    console.log('─'.repeat(100));
+    contradicted
+      .sort((a, b) => b.contradictions.length - a.contradictions.length)
+      .forEach(report => {
+        console.log(`  ${report.rule.name} → ${report.rule.category}: ${report.contradictions.length} of ${report.claims.length} claimed transaction(s) overridden`);
+        if (listDetails) {
+          report.contradictions.forEach(t => console.log(`      ${formatTransaction(t)}  → ${t.categoryOverride}`));
+        }
+      });
+    console.log('─'.repeat(100));
+    if (!listDetails) {
+      console.log(`\n💡 Tip: Run with --list or -l to see the overridden transactions`);
+    }
+  }
+
+  if (neverMatching.length === 0 && shadowed.length === 0 && ambiguousKeywords.length === 0 && contradicted.length === 0) {
+    console.log('\n✅ Every rule matches, none is shadowed and no override contradicts them!');
+  }
+}
+
+// Run if executed directly
+if (isMainModule(import.meta.url)) {
+  main();
+}
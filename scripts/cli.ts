@@ -0,0 +1,140 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ParseArgsConfig } from 'util';
+
+/**
+ * Exit codes shared by the command-line tools
+ */
+export const EXIT_OK = 0;
+export const EXIT_FINDINGS = 1; // The command ran but found problems: invalid data, rows that failed to parse or were held back
+export const EXIT_ERROR = 2; // Bad arguments, or a file couldn't be read or written
+
+export const OUTPUT_FORMATS = ['table', 'json', 'csv'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type Verbosity = 'quiet' | 'normal' | 'verbose';
+
+/**
+ * Progress messages go to stderr, so stdout only carries the command's output
+ */
+export interface Logger {
+  info: (...args: unknown[]) => void; // Hidden with --quiet
+  verbose: (...args: unknown[]) => void; // Shown only with --verbose
+}
+
+export function createLogger(verbosity: Verbosity): Logger {
+  const noop = () => {};
+  return {
+    info: verbosity === 'quiet' ? noop : (...args) => console.error(...args),
+    verbose: verbosity === 'verbose' ? (...args) => console.error(...args) : noop,
+  };
+}
+
+/**
+ * What a subcommand of `fh` gets to run with
+ */
+export interface CommandContext {
+  options: Record<string, string | boolean | string[] | undefined>; // Parsed options, global ones included
+  format: OutputFormat;
+  log: Logger;
+}
+
+/**
+ * A subcommand of `fh`
+ */
+export interface Command {
+  name: string;
+  summary: string;
+  usage: string; // Arguments and options, shown after `fh <name>`
+  help: string; // What the options do
+  options: NonNullable<ParseArgsConfig['options']>;
+  formats?: OutputFormat[]; // Output formats it supports; all when unset
+  run: (context: CommandContext) => number | Promise<number>; // Resolves to the exit code
+}
+
+/**
+ * One column of command output; `key` names the field in JSON and the CSV header
+ */
+export interface Column<T> {
+  key: string;
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+  align?: 'left' | 'right';
+  decimals?: number; // Fixed decimals for numbers in tables and CSV; non-integers get 2 when unset
+}
+
+function formatCell(value: string | number | boolean | null | undefined, decimals?: number): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' && decimals !== undefined) return value.toFixed(decimals);
+  if (typeof value === 'number' && !Number.isInteger(value)) return value.toFixed(2);
+  return String(value);
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Print rows as an aligned table, a JSON array or CSV
+ */
+export function printRows<T>(rows: T[], columns: Column<T>[], format: OutputFormat): void {
+  if (format === 'json') {
+    const data = rows.map(row => Object.fromEntries(columns.map(column => {
+      const value = column.value(row) ?? null;
+      // Round sums of amounts to the cent, like the other formats
+      return [column.key, typeof value === 'number' ? Math.round(value * 100) / 100 : value];
+    })));
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+
+  if (format === 'csv') {
+    console.log(columns.map(column => escapeCSV(column.key)).join(','));
+    rows.forEach(row => console.log(columns.map(column => escapeCSV(formatCell(column.value(row), column.decimals))).join(',')));
+    return;
+  }
+
+  const cells = rows.map(row => columns.map(column => formatCell(column.value(row), column.decimals)));
+  const widths = columns.map((column, index) => Math.max(column.header.length, ...cells.map(line => line[index].length)));
+  const formatLine = (line: string[]) =>
+    line
+      .map((cell, index) => (columns[index].align === 'right' ? cell.padStart(widths[index]) : cell.padEnd(widths[index])))
+      .join('  ')
+      .trimEnd();
+
+  console.log(formatLine(columns.map(column => column.header)));
+  console.log('─'.repeat(widths.reduce((sum, width) => sum + width + 2, -2)));
+  cells.forEach(line => console.log(formatLine(line)));
+}
+
+/**
+ * Whether a module is the script being run, rather than imported by another one
+ */
+export function isMainModule(moduleUrl: string): boolean {
+  return Boolean(process.argv[1]) && moduleUrl === pathToFileURL(resolve(process.argv[1])).href;
+}
+
+/**
+ * Value of a numeric option, or undefined when it isn't given
+ */
+export function readNumberOption(options: CommandContext['options'], name: string): number | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || !Number.isFinite(number)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Value of a YYYY-MM-DD date option, or undefined when it isn't given
+ */
+export function readDateOption(options: CommandContext['options'], name: string): string | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new Error(`--${name} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
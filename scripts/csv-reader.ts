@@ -0,0 +1,191 @@
+/**
+ * RFC 4180 CSV reading: charset detection, delimiter detection and a streaming tokenizer
+ */
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * One record of a CSV file
+ * `line` is the line the record starts on; quoted fields may span several lines
+ * `error` is set when the record is malformed, `fields` then holds what could be read
+ */
+export interface CSVRecord {
+  line: number;
+  fields: string[];
+  error?: string;
+}
+
+/**
+ * Delimiters tried by detectDelimiter, in order of preference on ties
+ */
+const DELIMITER_CANDIDATES = [';', ',', '\t', '|'];
+
+/**
+ * Decode a CSV file to text
+ * A byte order mark decides the charset; otherwise the bytes are read as UTF-8 if they are
+ * valid UTF-8, and as Windows-1252 (a superset of printable Latin-1) if they are not
+ */
+export function decodeCSV(buffer: Buffer): { text: string; encoding: CSVEncoding } {
+  let encoding: CSVEncoding;
+  let offset = 0;
+
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    encoding = 'utf-8';
+    offset = 3;
+  } else if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    encoding = 'utf-16le';
+    offset = 2;
+  } else if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    encoding = 'utf-16be';
+    offset = 2;
+  } else {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+      encoding = 'utf-8';
+    } catch {
+      encoding = 'windows-1252';
+    }
+  }
+
+  const text = new TextDecoder(encoding, { ignoreBOM: true }).decode(buffer.subarray(offset));
+  return { text, encoding };
+}
+
+/**
+ * Count the occurrences of a character outside quoted sections of a line
+ */
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const c of line) {
+    if (c === '"') quoted = !quoted;
+    else if (c === char && !quoted) count++;
+  }
+  return count;
+}
+
+/**
+ * Guess the delimiter from sample lines: the candidate that appears the same
+ * number of times on the most lines wins
+ * Falls back to a comma when no candidate appears at all (single-column files)
+ */
+export function detectDelimiter(sampleLines: string[]): string {
+  const lines = sampleLines.filter(line => line.trim());
+  let best = { delimiter: ',', consistentLines: 0, count: 0 };
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter)).filter(count => count > 0);
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+
+    frequency.forEach((consistentLines, count) => {
+      if (
+        consistentLines > best.consistentLines ||
+        (consistentLines === best.consistentLines && count > best.count)
+      ) {
+        best = { delimiter, consistentLines, count };
+      }
+    });
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * Tokenize CSV text into records, following RFC 4180:
+ * - fields may be quoted; quoted fields can contain delimiters, quotes (doubled) and line breaks
+ * - records end at \r\n, \n or \r
+ * - blank lines are skipped
+ * The text can be fed in chunks of any size; records are yielded as soon as they are complete
+ * Malformed records (text after a closing quote, an unterminated quote) are yielded with `error`
+ * instead of being dropped, so callers can report them with their line number
+ */
+export function* tokenizeCSV(chunks: Iterable<string>, delimiter: string, firstLine = 1): Generator<CSVRecord> {
+  let fields: string[] = [];
+  let field = '';
+  let state: 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' = 'fieldStart';
+  let line = firstLine;
+  let recordLine = firstLine;
+  let error: string | undefined;
+  let pendingCR = false;
+
+  const endRecord = (): CSVRecord | null => {
+    fields.push(field);
+    const record = fields.length === 1 && fields[0] === '' && !error
+      ? null // Blank line
+      : { line: recordLine, fields, ...(error ? { error } : {}) };
+    fields = [];
+    field = '';
+    state = 'fieldStart';
+    error = undefined;
+    recordLine = line;
+    return record;
+  };
+
+  for (const chunk of chunks) {
+    for (const c of chunk) {
+      // Second half of a \r\n pair: the line break was already handled at \r
+      if (pendingCR) {
+        pendingCR = false;
+        if (c === '\n') continue;
+      }
+
+      if (state === 'quoted') {
+        if (c === '"') {
+          state = 'quoteInQuoted';
+        } else if (c === '\r' || c === '\n') {
+          // Line breaks inside quoted fields are kept, normalized to \n
+          line++;
+          pendingCR = c === '\r';
+          field += '\n';
+        } else {
+          field += c;
+        }
+        continue;
+      }
+
+      if (c === '\r' || c === '\n') {
+        line++;
+        pendingCR = c === '\r';
+        const record = endRecord();
+        if (record) yield record;
+        continue;
+      }
+
+      if (c === delimiter) {
+        fields.push(field);
+        field = '';
+        state = 'fieldStart';
+        continue;
+      }
+
+      if (state === 'fieldStart') {
+        if (c === '"') {
+          state = 'quoted';
+        } else {
+          field += c;
+          state = 'unquoted';
+        }
+      } else if (state === 'quoteInQuoted') {
+        if (c === '"') {
+          // Escaped quote
+          field += '"';
+          state = 'quoted';
+        } else {
+          error = error || `unexpected character '${c}' after closing quote`;
+          field += c;
+          state = 'unquoted';
+        }
+      } else {
+        // A quote inside an unquoted field is kept as a literal character
+        field += c;
+      }
+    }
+  }
+
+  if (state === 'quoted') {
+    error = error || `unterminated quoted field starting on line ${recordLine}`;
+  }
+  const record = endRecord();
+  if (record) yield record;
+}
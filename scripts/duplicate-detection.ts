@@ -0,0 +1,263 @@
+import { createInterface } from 'readline';
+import { ParsedTransaction } from './categorization-rules';
+
+/**
+ * Maximum number of days between the dates of two duplicate candidates
+ */
+const MAX_DAYS_APART = 3;
+
+/**
+ * Minimum description similarity (0-1) for two transactions to be duplicate candidates
+ */
+const MIN_SIMILARITY = 0.6;
+
+export type DuplicateResolution = 'merge' | 'keep' | 'hold';
+
+/**
+ * How candidates are resolved during an import:
+ * - report: list them and hold the incoming rows back until resolved
+ * - merge: fold every incoming candidate into its match
+ * - keep: import every candidate as a distinct transaction
+ * - interactive: ask for each candidate
+ */
+export type DuplicateMode = 'report' | 'merge' | 'keep' | 'interactive';
+
+export const DUPLICATE_MODES: DuplicateMode[] = ['report', 'merge', 'keep', 'interactive'];
+
+export interface DuplicateCandidate {
+  incoming: ParsedTransaction;
+  match: ParsedTransaction;
+  similarity: number;
+  daysApart: number;
+}
+
+/**
+ * Normalize a description for comparison: lowercase, letters and digits only
+ */
+function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(value: string): Map<string, number> {
+  const result = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const bigram = value.substring(i, i + 2);
+    result.set(bigram, (result.get(bigram) || 0) + 1);
+  }
+  return result;
+}
+
+/**
+ * Sørensen-Dice similarity of the character bigrams of two descriptions (0-1)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  let overlap = 0;
+  leftBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0);
+  });
+
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether two transactions came from the same export file
+ * Repeated movements within one export (two identical coffees on the same day) are genuine
+ */
+function fromSameFile(a: ParsedTransaction, b: ParsedTransaction): boolean {
+  return Boolean(a.source && b.source && a.source.file === b.source.file);
+}
+
+/**
+ * Whether the export a transaction came from also lists `other`: both are in the same
+ * statement, so they are distinct movements. `exportedIds` holds the IDs each file listed
+ */
+function exportedTogether(
+  transaction: ParsedTransaction,
+  other: ParsedTransaction,
+  exportedIds: Map<string, Set<string>>
+): boolean {
+  const ids = transaction.source && exportedIds.get(transaction.source.file);
+  return Boolean(ids && [other.id, ...(other.mergedIds || [])].some(id => ids.has(id)));
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function signedCents(transaction: ParsedTransaction): number {
+  const cents = toCents(transaction.amount);
+  return transaction.type === 'expense' ? -cents : cents;
+}
+
+/**
+ * Whether the reported balance of a transaction follows from the balance of an earlier
+ * movement of its account, while differing from the balance of its match. The same
+ * movement exported twice carries the same running balance; a genuine repeat moves it on
+ */
+function balanceChains(
+  transaction: ParsedTransaction,
+  match: ParsedTransaction,
+  accountRows: ParsedTransaction[]
+): boolean {
+  if (transaction.balance === undefined || match.balance === undefined) return false;
+  if (toCents(transaction.balance) === toCents(match.balance)) return false;
+
+  const previousCents = toCents(transaction.balance) - signedCents(transaction);
+  return accountRows.some(row =>
+    row.id !== transaction.id &&
+    row.balance !== undefined &&
+    row.date <= transaction.date &&
+    toCents(row.balance) === previousCents
+  );
+}
+
+/**
+ * Find, for each incoming transaction, the most similar transaction with the same account,
+ * type and amount, a close date and a similar description, exported in a different file
+ * Incoming transactions are compared with the known ones and with the incoming ones before them
+ * Exact ID matches are not candidates: those are already deduplicated by mergeTransactions
+ * A pair is not a candidate either when the incoming file also lists the match, or when the
+ * incoming balance chains from the previous movement of the account
+ */
+export function findDuplicateCandidates(
+  incoming: ParsedTransaction[],
+  known: ParsedTransaction[],
+  exportedIds: Map<string, Set<string>> = new Map()
+): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+  const claimed = new Set<string>();
+  const candidateIds = new Set<string>();
+  const rowsByAccount = new Map<string, ParsedTransaction[]>();
+  [...known, ...incoming].forEach(t => {
+    const list = rowsByAccount.get(t.account) || [];
+    list.push(t);
+    rowsByAccount.set(t.account, list);
+  });
+
+  incoming.forEach((transaction, index) => {
+    let best: DuplicateCandidate | null = null;
+    const others = [...known, ...incoming.slice(0, index).filter(t => !candidateIds.has(t.id))];
+
+    for (const other of others) {
+      if (
+        other.id === transaction.id ||
+        claimed.has(other.id) ||
+        fromSameFile(other, transaction) ||
+        exportedTogether(transaction, other, exportedIds) ||
+        other.account !== transaction.account ||
+        other.type !== transaction.type ||
+        Math.round(other.amount * 100) !== Math.round(transaction.amount * 100)
+      ) {
+        continue;
+      }
+
+      const daysApart = daysBetween(other.date, transaction.date);
+      if (daysApart > MAX_DAYS_APART) continue;
+
+      const similarity = descriptionSimilarity(other.description, transaction.description);
+      if (similarity < MIN_SIMILARITY) continue;
+      if (balanceChains(transaction, other, rowsByAccount.get(transaction.account) || [])) continue;
+
+      if (!best || similarity > best.similarity || (similarity === best.similarity && daysApart < best.daysApart)) {
+        best = { incoming: transaction, match: other, similarity, daysApart };
+      }
+    }
+
+    if (best) {
+      // A transaction can only absorb one incoming duplicate per run
+      claimed.add(best.match.id);
+      candidateIds.add(transaction.id);
+      candidates.push(best);
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Record merged duplicates on the transactions they were merged into
+ * The kept transaction retains its own category, overrides and provenance; it only
+ * gains the merged IDs (so later imports recognise them) and a missing balance
+ */
+export function applyDuplicateMerges(
+  transactions: ParsedTransaction[],
+  merges: DuplicateCandidate[]
+): ParsedTransaction[] {
+  const byMatch = new Map<string, ParsedTransaction[]>();
+  merges.forEach(({ match, incoming }) => {
+    byMatch.set(match.id, [...(byMatch.get(match.id) || []), incoming]);
+  });
+
+  return transactions.map(t => {
+    const duplicates = byMatch.get(t.id);
+    if (!duplicates) return t;
+
+    const withBalance = duplicates.find(d => d.balance !== undefined);
+    return {
+      ...t,
+      balance: t.balance ?? withBalance?.balance,
+      mergedIds: [...(t.mergedIds || []), ...duplicates.map(d => d.id)],
+    };
+  });
+}
+
+function describe(t: ParsedTransaction): string {
+  const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+  return `[${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${t.description}`;
+}
+
+/**
+ * Decide what happens to each candidate, asking on the terminal in interactive mode
+ */
+export async function resolveDuplicateCandidates(
+  candidates: DuplicateCandidate[],
+  mode: DuplicateMode
+): Promise<Map<string, DuplicateResolution>> {
+  const resolutions = new Map<string, DuplicateResolution>();
+
+  if (mode !== 'interactive') {
+    const resolution: DuplicateResolution = mode === 'merge' ? 'merge' : mode === 'keep' ? 'keep' : 'hold';
+    candidates.forEach(candidate => resolutions.set(candidate.incoming.id, resolution));
+    return resolutions;
+  }
+
+  // Read answers through the line iterator so piped answers are buffered, not dropped
+  const rl = createInterface({ input: process.stdin });
+  const answers = rl[Symbol.asyncIterator]();
+  try {
+    for (const [index, candidate] of candidates.entries()) {
+      console.error(`\nDuplicate candidate ${index + 1}/${candidates.length} (similarity ${(candidate.similarity * 100).toFixed(0)}%, ${candidate.daysApart} day(s) apart)`);
+      console.error(`  existing: ${describe(candidate.match)}`);
+      console.error(`  incoming: ${describe(candidate.incoming)}`);
+
+      let answer = '';
+      while (!['m', 'k', 's'].includes(answer)) {
+        process.stderr.write('  [m]erge into existing, [k]eep both, [s]kip for now? ');
+        const next = await answers.next();
+        // End of input: leave this and the remaining candidates for later
+        answer = next.done ? 's' : String(next.value).trim().toLowerCase();
+      }
+      resolutions.set(candidate.incoming.id, answer === 'm' ? 'merge' : answer === 'k' ? 'keep' : 'hold');
+    }
+  } finally {
+    rl.close();
+  }
+
+  return resolutions;
+}
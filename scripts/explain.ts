@@ -0,0 +1,101 @@
+import { CategorizationRule, ParsedTransaction, RuleMatch, getCategorizationRules } from './categorization-rules';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+/**
+ * Describe a rule match, e.g. Transport (keyword "gas")
+ */
+function describeMatch(match: RuleMatch): string {
+  if (match.keyword) return `${match.rule} (keyword "${match.keyword}")`;
+  if (match.pattern) return `${match.rule} (pattern /${match.pattern}/i)`;
+  if (match.confidence !== undefined) return `${match.rule} (${(match.confidence * 100).toFixed(0)}% confidence)`;
+  return match.rule;
+}
+
+/**
+ * Walk all rules for one transaction and show which matched, which would have
+ * matched if an earlier rule hadn't, and why the others didn't
+ */
+function explainTransaction(t: ParsedTransaction) {
+  const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+
+  console.log(`🔍 Explain ${t.id}`);
+  console.log('═'.repeat(100));
+  console.log(`Date:          ${t.date}`);
+  console.log(`Description:   ${t.description}${t.descriptionOverride ? `  (shown as "${t.descriptionOverride}")` : ''}`);
+  if (t.merchant) {
+    console.log(`Merchant:      ${t.merchant}`);
+  }
+  console.log(`Amount:        ${amountStr} €`);
+  console.log(`Account:       ${t.account}`);
+  if (t.movementType) {
+    console.log(`Movement type: ${t.movementType}`);
+  }
+  console.log(`Category:      ${t.category}${t.categorizedBy ? ` by rule ${describeMatch(t.categorizedBy)}` : ''}`);
+  if (t.categoryOverride && t.categoryOverride.trim()) {
+    console.log(`Override:      ${t.categoryOverride} (manual, rules don't apply)`);
+  }
+  console.log('═'.repeat(100));
+
+  console.log('\n📐 Rules in evaluation order:');
+  console.log('─'.repeat(100));
+  let winner: CategorizationRule | undefined;
+  for (const [index, rule] of getCategorizationRules().entries()) {
+    const evaluation = rule.evaluate(t);
+    const position = `${(index + 1).toString().padStart(3)}.`;
+    const label = `${rule.name} → ${rule.category}`;
+
+    if (evaluation.matched) {
+      const matched = evaluation.keyword ? ` on keyword "${evaluation.keyword}"` : evaluation.pattern ? ` on pattern /${evaluation.pattern}/i` : '';
+      if (!winner) {
+        winner = rule;
+        console.log(`  ✅ ${position} ${label}: matches${matched}`);
+      } else {
+        console.log(`  ⚪ ${position} ${label}: would match${matched}, but "${winner.name}" comes first`);
+      }
+    } else {
+      const failed = evaluation.checks.filter(check => !check.passed).map(check => check.detail);
+      console.log(`  ❌ ${position} ${label}: ${failed.join('; ')}`);
+    }
+  }
+  console.log('─'.repeat(100));
+
+  if (!winner) {
+    console.log('\nNo rule matches: the transaction stays pendiente');
+  }
+  const current = winner ? winner.category : 'pendiente';
+  if (current !== t.category && !(t.categoryOverride && t.categoryOverride.trim())) {
+    console.log(`\n💡 The current rules give ${current}, not the stored ${t.category}; re-run parse-transactions to update it`);
+  }
+}
+
+/**
+ * Main function
+ */
+function main() {
+  const transactionId = process.argv[2];
+  if (!transactionId || transactionId.startsWith('-')) {
+    console.error('Usage: explain <tx-id>');
+    process.exit(1);
+  }
+
+  let transactions: ParsedTransaction[];
+  try {
+    transactions = readTransactionsFile(getTransactionsPath());
+    // Fail on an invalid rules file before printing anything
+    getCategorizationRules();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const transaction = transactions.find(t => t.id === transactionId || t.mergedIds?.includes(transactionId));
+  if (!transaction) {
+    console.error(`Transaction not found: ${transactionId}`);
+    process.exit(1);
+  }
+
+  explainTransaction(transaction);
+}
+
+// Run if executed directly
+main();
@@ -0,0 +1,35 @@
+import { Command, EXIT_OK } from './cli';
+import { DUPLICATE_MODES } from './duplicate-detection';
+import { main as parseTransactions } from './parse-transactions';
+
+/**
+ * `fh import`: parse-transactions with the shared options
+ */
+export const importCommand: Command = {
+  name: 'import',
+  summary: 'Import the movement files in src/movements into the transactions file',
+  usage: `[--dry-run] [--classify] [--duplicates <${DUPLICATE_MODES.join('|')}>]`,
+  help: `  -n, --dry-run         Show what the import would change without writing
+      --classify        Apply confident classifier suggestions to transactions no rule matches;
+                        later imports keep them until a rule matches
+      --duplicates      What to do with likely duplicates from overlapping exports (default: report)
+
+--format json prints the import diff; progress goes to stderr`,
+  options: {
+    'dry-run': { type: 'boolean', short: 'n' },
+    classify: { type: 'boolean' },
+    duplicates: { type: 'string' },
+  },
+  formats: ['table', 'json'],
+  run: async ({ options, format }) => {
+    const args: string[] = [];
+    if (options['dry-run']) args.push('--dry-run');
+    if (options.classify) args.push('--classify');
+    if (options.duplicates !== undefined) args.push('--duplicates', String(options.duplicates));
+    if (format === 'json') args.push('--json');
+    if (options.quiet) args.push('--quiet');
+
+    await parseTransactions(args);
+    return typeof process.exitCode === 'number' ? process.exitCode : EXIT_OK;
+  },
+};
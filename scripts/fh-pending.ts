@@ -0,0 +1,72 @@
+import { Command, EXIT_OK, printRows, readNumberOption } from './cli';
+import { trainClassifier, suggestCategory } from './category-classifier';
+import { getCategorizationRules } from './categorization-rules';
+import { isPending, runTriage } from './pending-triage';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * `fh pending`: the transactions no rule categorized, newest first, with a suggested category
+ */
+export const pendingCommand: Command = {
+  name: 'pending',
+  summary: 'List pending transactions with a suggested category, or triage them',
+  usage: '[--limit <n>] [--triage]',
+  help: `      --limit <n>       Show the n most recent (default: ${DEFAULT_LIMIT}; 0 for all)
+  -t, --triage          Categorize them one by one with single key presses`,
+  options: {
+    limit: { type: 'string' },
+    triage: { type: 'boolean', short: 't' },
+  },
+  run: async ({ options, format, log }) => {
+    const transactionsPath = getTransactionsPath();
+    log.verbose(`Reading ${transactionsPath}`);
+    const transactions = readTransactionsFile(transactionsPath);
+
+    if (options.triage) {
+      if (format !== 'table' || !process.stdin.isTTY) {
+        throw new Error('--triage needs a terminal and the table format');
+      }
+      // Fail on an invalid rules file before starting the session
+      getCategorizationRules();
+      await runTriage(transactionsPath, transactions);
+      return EXIT_OK;
+    }
+
+    const limit = readNumberOption(options, 'limit') ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error('--limit must be a whole number');
+    }
+
+    const pending = transactions
+      .filter(isPending)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const shown = limit > 0 ? pending.slice(0, limit) : pending;
+    const classifier = trainClassifier(transactions);
+    const rows = shown.map(t => ({ transaction: t, suggestion: suggestCategory(classifier, t) }));
+
+    if (format === 'table') {
+      const overrides = transactions.filter(t => t.categoryOverride && t.categoryOverride.trim()).length;
+      console.log(`${pending.length} of ${transactions.length} transactions pending, ${overrides} manual override(s)\n`);
+    }
+    printRows(rows, [
+      { key: 'date', header: 'Date', value: row => row.transaction.date },
+      { key: 'id', header: 'ID', value: row => row.transaction.id },
+      { key: 'amount', header: 'Amount', value: row => (row.transaction.type === 'income' ? 1 : -1) * row.transaction.amount, align: 'right', decimals: 2 },
+      { key: 'description', header: 'Description', value: row => row.transaction.descriptionOverride || row.transaction.description },
+      { key: 'suggestion', header: 'Suggestion', value: row => row.suggestion?.category },
+      {
+        key: 'confidence',
+        header: 'Confidence',
+        value: row => (row.suggestion ? Math.round(row.suggestion.confidence * 100) / 100 : undefined),
+        align: 'right',
+        decimals: 2,
+      },
+    ], format);
+    if (format === 'table' && shown.length < pending.length) {
+      console.log(`\n💡 Showing the ${shown.length} most recent; pass --limit 0 to see all`);
+    }
+    return EXIT_OK;
+  },
+};
@@ -0,0 +1,122 @@
+import { getAccountById } from '../src/config/accounts';
+import { getCategoryById } from '../src/config/categories';
+import {
+  calculateTotals,
+  filterTransactionsByAccount,
+  filterTransactionsByCategory,
+  filterTransactionsByType,
+  getEffectiveCategory,
+  getEffectiveDescription,
+  getTransactionDate,
+  searchTransactions,
+} from '../src/lib/transaction-utils';
+import { DateBasis } from '../src/types/transaction';
+import { Command, CommandContext, EXIT_OK, printRows, readDateOption, readNumberOption } from './cli';
+import { ParsedTransaction } from './categorization-rules';
+import { isPending } from './pending-triage';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+/**
+ * Date basis option shared by query and report
+ */
+export function readBasisOption(options: CommandContext['options']): DateBasis {
+  const basis = options.basis ?? 'value';
+  if (basis !== 'value' && basis !== 'booking') {
+    throw new Error('--basis must be value or booking');
+  }
+  return basis;
+}
+
+/**
+ * Transactions within the --from/--to range, by the chosen date basis
+ */
+export function filterByDateOptions(transactions: ParsedTransaction[], options: CommandContext['options']): ParsedTransaction[] {
+  const from = readDateOption(options, 'from');
+  const to = readDateOption(options, 'to');
+  const basis = readBasisOption(options);
+  return transactions.filter(t => {
+    const date = getTransactionDate(t, basis);
+    return (!from || date >= from) && (!to || date <= to);
+  });
+}
+
+/**
+ * `fh query`: filter transactions the way the dashboard does
+ */
+export const queryCommand: Command = {
+  name: 'query',
+  summary: 'Find transactions by date, category, account, type, amount or text',
+  usage: `[--from <date>] [--to <date>] [--category <id>]... [--account <id>] [--type income|expense]
+         [--search <text>] [--min <amount>] [--max <amount>] [--pending] [--basis value|booking] [--limit <n>]`,
+  help: `      --from, --to      Date range, YYYY-MM-DD, both ends included
+      --category <id>   Effective category; a parent includes its subcategories. Repeat for several
+      --search <text>   Text in the description, merchant or category
+      --min, --max      Amount range, regardless of sign
+      --pending         Only transactions no rule or override categorized
+      --basis           Date the range applies to: the value date (default) or the booking date
+      --limit <n>       Show the n most recent`,
+  options: {
+    from: { type: 'string' },
+    to: { type: 'string' },
+    category: { type: 'string', multiple: true },
+    account: { type: 'string' },
+    type: { type: 'string' },
+    search: { type: 'string' },
+    min: { type: 'string' },
+    max: { type: 'string' },
+    pending: { type: 'boolean' },
+    basis: { type: 'string' },
+    limit: { type: 'string' },
+  },
+  run: ({ options, format, log }) => {
+    const categories = (options.category as string[] | undefined) ?? [];
+    categories.forEach(id => {
+      if (!getCategoryById(id)) throw new Error(`Unknown category: ${id}`);
+    });
+    const account = options.account as string | undefined;
+    if (account && !getAccountById(account)) {
+      throw new Error(`Unknown account: ${account}`);
+    }
+    const type = options.type ?? 'all';
+    if (type !== 'all' && type !== 'income' && type !== 'expense') {
+      throw new Error('--type must be income or expense');
+    }
+    const min = readNumberOption(options, 'min');
+    const max = readNumberOption(options, 'max');
+    const limit = readNumberOption(options, 'limit');
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new Error('--limit must be a whole number of at least 1');
+    }
+    const basis = readBasisOption(options);
+
+    let transactions = filterByDateOptions(readTransactionsFile(getTransactionsPath()), options);
+    transactions = filterTransactionsByCategory(transactions, categories);
+    transactions = filterTransactionsByAccount(transactions, account ?? 'all');
+    transactions = filterTransactionsByType(transactions, type);
+    transactions = searchTransactions(transactions, (options.search as string | undefined) ?? '');
+    transactions = transactions.filter(t => (min === undefined || t.amount >= min) && (max === undefined || t.amount <= max));
+    if (options.pending) {
+      transactions = transactions.filter(isPending);
+    }
+    log.verbose(`${transactions.length} transaction(s) match`);
+
+    const sorted = transactions.sort((a, b) => getTransactionDate(b, basis).localeCompare(getTransactionDate(a, basis)));
+    const shown = limit ? sorted.slice(0, limit) : sorted;
+
+    printRows(shown, [
+      { key: 'date', header: 'Date', value: t => getTransactionDate(t, basis) },
+      { key: 'id', header: 'ID', value: t => t.id },
+      { key: 'account', header: 'Account', value: t => t.account },
+      { key: 'amount', header: 'Amount', value: t => (t.type === 'income' ? 1 : -1) * t.amount, align: 'right', decimals: 2 },
+      { key: 'category', header: 'Category', value: t => getEffectiveCategory(t) },
+      { key: 'description', header: 'Description', value: t => getEffectiveDescription(t) },
+    ], format);
+
+    if (format === 'table') {
+      const totals = calculateTotals(transactions);
+      const shownNote = shown.length < transactions.length ? ` (showing ${shown.length})` : '';
+      console.log(`\n${transactions.length} transaction(s)${shownNote}: +${totals.income.toFixed(2)} € income, -${totals.expenses.toFixed(2)} € expenses, net ${totals.net.toFixed(2)} €`);
+    }
+    return EXIT_OK;
+  },
+};
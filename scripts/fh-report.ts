@@ -0,0 +1,92 @@
+import { ACCOUNTS } from '../src/config/accounts';
+import { getCategoryById } from '../src/config/categories';
+import { calculateTotals, getCategorySpending, getCurrentBalances, getTransactionDate } from '../src/lib/transaction-utils';
+import { Command, EXIT_OK, printRows } from './cli';
+import { ParsedTransaction } from './categorization-rules';
+import { filterByDateOptions, readBasisOption } from './fh-query';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+const GROUPINGS = ['month', 'category', 'account'] as const;
+
+/**
+ * Group transactions by a key, keeping the order keys are first seen in
+ */
+function groupBy(transactions: ParsedTransaction[], key: (t: ParsedTransaction) => string): Map<string, ParsedTransaction[]> {
+  const groups = new Map<string, ParsedTransaction[]>();
+  transactions.forEach(t => groups.set(key(t), [...(groups.get(key(t)) || []), t]));
+  return groups;
+}
+
+/**
+ * `fh report`: the dashboard's totals, per month, category or account
+ */
+export const reportCommand: Command = {
+  name: 'report',
+  summary: 'Summarize income and expenses per month, category or account',
+  usage: '[--by month|category|account] [--from <date>] [--to <date>] [--parent <id>] [--basis value|booking]',
+  help: `      --by              Grouping (default: month). Categories show expenses rolled up to top-level categories
+      --from, --to      Date range, YYYY-MM-DD, both ends included
+      --parent <id>     With --by category, break a category down into its subcategories
+      --basis           Date the months and range use: the value date (default) or the booking date`,
+  options: {
+    by: { type: 'string' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    parent: { type: 'string' },
+    basis: { type: 'string' },
+  },
+  run: ({ options, format }) => {
+    const by = (options.by as string | undefined) ?? 'month';
+    if (!(GROUPINGS as readonly string[]).includes(by)) {
+      throw new Error(`--by must be one of ${GROUPINGS.join(', ')}`);
+    }
+    const parent = options.parent as string | undefined;
+    if (parent && by !== 'category') {
+      throw new Error('--parent only applies with --by category');
+    }
+    if (parent && !getCategoryById(parent)) {
+      throw new Error(`Unknown category: ${parent}`);
+    }
+    const basis = readBasisOption(options);
+
+    const allTransactions = readTransactionsFile(getTransactionsPath());
+    const transactions = filterByDateOptions(allTransactions, options);
+    const totals = calculateTotals(transactions);
+
+    if (by === 'category') {
+      printRows(getCategorySpending(transactions, parent), [
+        { key: 'category', header: 'Category', value: row => row.categoryId },
+        { key: 'name', header: 'Name', value: row => row.category },
+        { key: 'expenses', header: 'Expenses', value: row => row.amount, align: 'right', decimals: 2 },
+        { key: 'percentage', header: '%', value: row => Math.round(row.percentage * 10) / 10, align: 'right', decimals: 1 },
+      ], format);
+    } else if (by === 'account') {
+      const balances = getCurrentBalances(allTransactions, ACCOUNTS);
+      const groups = groupBy(transactions, t => t.account);
+      printRows(ACCOUNTS, [
+        { key: 'account', header: 'Account', value: account => account.id },
+        { key: 'name', header: 'Name', value: account => account.name },
+        { key: 'income', header: 'Income', value: account => calculateTotals(groups.get(account.id) || []).income, align: 'right', decimals: 2 },
+        { key: 'expenses', header: 'Expenses', value: account => calculateTotals(groups.get(account.id) || []).expenses, align: 'right', decimals: 2 },
+        { key: 'net', header: 'Net', value: account => calculateTotals(groups.get(account.id) || []).net, align: 'right', decimals: 2 },
+        { key: 'balance', header: 'Balance now', value: account => balances[account.id], align: 'right', decimals: 2 },
+      ], format);
+    } else {
+      const months = Array.from(groupBy(transactions, t => getTransactionDate(t, basis).slice(0, 7)).entries())
+        .map(([month, group]) => ({ month, ...calculateTotals(group) }))
+        .sort((a, b) => a.month.localeCompare(b.month));
+      printRows(months, [
+        { key: 'month', header: 'Month', value: row => row.month },
+        { key: 'income', header: 'Income', value: row => row.income, align: 'right', decimals: 2 },
+        { key: 'expenses', header: 'Expenses', value: row => row.expenses, align: 'right', decimals: 2 },
+        { key: 'net', header: 'Net', value: row => row.net, align: 'right', decimals: 2 },
+        { key: 'transactions', header: 'Transactions', value: row => row.transactionCount, align: 'right' },
+      ], format);
+    }
+
+    if (format === 'table') {
+      console.log(`\nTotal: +${totals.income.toFixed(2)} € income, -${totals.expenses.toFixed(2)} € expenses, net ${totals.net.toFixed(2)} € over ${totals.transactionCount} transaction(s)`);
+    }
+    return EXIT_OK;
+  },
+};
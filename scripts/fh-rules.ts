@@ -0,0 +1,53 @@
+import { Command, EXIT_OK, printRows } from './cli';
+import { readRulesFile, getRulesPath } from './categorization-rules';
+import { analyzeRules } from './check-rules';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+/**
+ * `fh rules`: every rule in order, with how many transactions it claims and matches
+ */
+export const rulesCommand: Command = {
+  name: 'rules',
+  summary: 'List the categorization rules with how many transactions each one claims',
+  usage: '[--problems]',
+  help: `      --problems        Only rules that never match, are shadowed or are contradicted by overrides
+
+Claimed: transactions where the rule is the first to match. For the full report run check-rules`,
+  options: {
+    problems: { type: 'boolean' },
+  },
+  run: ({ options, format, log }) => {
+    log.verbose(`Reading ${getRulesPath()}`);
+    const definitions = readRulesFile(getRulesPath()).rules;
+    const transactions = readTransactionsFile(getTransactionsPath());
+
+    const reports = analyzeRules(definitions, transactions).map((report, index) => ({
+      ...report,
+      position: index + 1,
+      status:
+        report.matches.length === 0
+          ? 'never matches'
+          : report.claims.length === 0
+            ? 'shadowed'
+            : report.contradictions.length > 0
+              ? 'overridden'
+              : 'ok',
+    }));
+    const shown = options.problems ? reports.filter(report => report.status !== 'ok') : reports;
+
+    if (format === 'table') {
+      const claimed = reports.reduce((sum, report) => sum + report.claims.length, 0);
+      console.log(`${reports.length} rules; ${transactions.length - claimed} of ${transactions.length} transactions matched by none\n`);
+    }
+    printRows(shown, [
+      { key: 'position', header: '#', value: report => report.position, align: 'right' },
+      { key: 'name', header: 'Rule', value: report => report.rule.name },
+      { key: 'category', header: 'Category', value: report => report.rule.category },
+      { key: 'claimed', header: 'Claimed', value: report => report.claims.length, align: 'right' },
+      { key: 'matched', header: 'Matched', value: report => report.matches.length, align: 'right' },
+      { key: 'overridden', header: 'Overridden', value: report => report.contradictions.length, align: 'right' },
+      { key: 'status', header: 'Status', value: report => report.status },
+    ], format);
+    return EXIT_OK;
+  },
+};
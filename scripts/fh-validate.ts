@@ -0,0 +1,107 @@
+import { existsSync, readFileSync } from 'fs';
+import { relative } from 'path';
+import { ACCOUNTS } from '../src/config/accounts';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion } from '../src/config/transactions-schema';
+import { Command, EXIT_FINDINGS, EXIT_OK, printRows } from './cli';
+import { readCategoriesFile, getCategoriesPath } from './categories-file';
+import { ParsedTransaction, readRulesFile, getRulesPath } from './categorization-rules';
+import { findInvalidCategories } from './invalid-categories';
+import { readMerchantsFile, getMerchantsPath } from './merchant-normalization';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+interface Problem {
+  file: string;
+  severity: 'error' | 'warning';
+  problem: string;
+}
+
+/**
+ * Run a loader, turning the problems listed in its error into one row each
+ */
+function collectProblems(file: string, load: () => void, problems: Problem[]): boolean {
+  try {
+    load();
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const listed = message.split('\n').filter(line => line.startsWith('  - ')).map(line => line.slice(4));
+    (listed.length > 0 ? listed : [message]).forEach(problem => problems.push({ file, severity: 'error', problem }));
+    return false;
+  }
+}
+
+/**
+ * `fh validate`: check every data file against its schema, and the transactions against the catalogue
+ */
+export const validateCommand: Command = {
+  name: 'validate',
+  summary: 'Check the data files: schemas, category and account references, duplicate IDs',
+  usage: '',
+  help: `Exits with ${EXIT_FINDINGS} when it finds errors. Fix invalid categories with check-invalid-categories --fix`,
+  options: {},
+  run: ({ format, log }) => {
+    const problems: Problem[] = [];
+    const transactionsPath = getTransactionsPath();
+
+    let categoryIds: string[] = [];
+    collectProblems(getCategoriesPath(), () => {
+      categoryIds = readCategoriesFile().categories.map(c => c.id);
+    }, problems);
+    collectProblems(getRulesPath(), () => readRulesFile(getRulesPath()), problems);
+    collectProblems(getMerchantsPath(), () => readMerchantsFile(), problems);
+
+    let transactions: ParsedTransaction[] = [];
+    const transactionsValid = collectProblems(transactionsPath, () => {
+      transactions = readTransactionsFile(transactionsPath);
+    }, problems);
+
+    if (transactionsValid && existsSync(transactionsPath)) {
+      const version = getSchemaVersion(JSON.parse(readFileSync(transactionsPath, 'utf-8')));
+      if (version < CURRENT_SCHEMA_VERSION) {
+        problems.push({
+          file: transactionsPath,
+          severity: 'warning',
+          problem: `schema version ${version} is older than ${CURRENT_SCHEMA_VERSION}; run migrate-data to upgrade it`,
+        });
+      }
+
+      const seen = new Set<string>();
+      transactions.forEach(t => {
+        if (seen.has(t.id)) {
+          problems.push({ file: transactionsPath, severity: 'error', problem: `${t.id}: duplicate transaction ID` });
+        }
+        seen.add(t.id);
+        if (!ACCOUNTS.some(account => account.id === t.account)) {
+          problems.push({ file: transactionsPath, severity: 'error', problem: `${t.id}: unknown account "${t.account}"` });
+        }
+      });
+
+      // Without a valid catalogue every category would look invalid
+      if (categoryIds.length > 0) {
+        findInvalidCategories(transactions, categoryIds).forEach(item => {
+          problems.push({
+            file: transactionsPath,
+            severity: 'error',
+            problem: `${item.transaction.id}: ${item.field} "${item.invalidCategory}" is not in the categories file`,
+          });
+        });
+      }
+      log.verbose(`Checked ${transactions.length} transactions`);
+    }
+
+    const errors = problems.filter(p => p.severity === 'error').length;
+    if (format === 'table' && problems.length === 0) {
+      console.log('✅ All data files are valid');
+      return EXIT_OK;
+    }
+    printRows(problems, [
+      { key: 'severity', header: 'Severity', value: p => p.severity },
+      { key: 'file', header: 'File', value: p => relative(process.cwd(), p.file) || p.file },
+      { key: 'problem', header: 'Problem', value: p => p.problem },
+    ], format);
+    if (format === 'table') {
+      console.log(`\n${errors > 0 ? '❌' : '⚠️ '} ${errors} error(s), ${problems.length - errors} warning(s)`);
+    }
+    return errors > 0 ? EXIT_FINDINGS : EXIT_OK;
+  },
+};
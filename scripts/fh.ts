@@ -0,0 +1,110 @@
+import { parseArgs, ParseArgsConfig } from 'util';
+import { Command, EXIT_ERROR, EXIT_OK, OUTPUT_FORMATS, OutputFormat, createLogger } from './cli';
+import { setTransactionsPath } from './transactions-file';
+import { importCommand } from './fh-import';
+import { pendingCommand } from './fh-pending';
+import { validateCommand } from './fh-validate';
+import { rulesCommand } from './fh-rules';
+import { queryCommand } from './fh-query';
+import { reportCommand } from './fh-report';
+
+const COMMANDS: Command[] = [importCommand, pendingCommand, validateCommand, rulesCommand, queryCommand, reportCommand];
+
+/**
+ * Options every command takes
+ */
+const GLOBAL_OPTIONS: NonNullable<ParseArgsConfig['options']> = {
+  data: { type: 'string', short: 'd' },
+  format: { type: 'string', short: 'f' },
+  verbose: { type: 'boolean', short: 'v' },
+  quiet: { type: 'boolean', short: 'q' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+const GLOBAL_HELP = `Options:
+  -d, --data <path>     Transactions file (default: src/config/transactions.json)
+  -f, --format <format> Output format: ${OUTPUT_FORMATS.join(', ')} (default: table)
+  -v, --verbose         Show more progress on stderr
+  -q, --quiet           Show no progress on stderr
+  -h, --help            Show help
+
+Exit codes: 0 success, 1 the command found problems, 2 bad arguments or unreadable data`;
+
+function printHelp() {
+  console.log('Usage: fh <command> [options]\n\nCommands:');
+  COMMANDS.forEach(command => console.log(`  ${command.name.padEnd(10)} ${command.summary}`));
+  console.log(`\n${GLOBAL_HELP}\n\nRun fh <command> --help for the options of a command`);
+}
+
+function printCommandHelp(command: Command) {
+  console.log(`${command.summary}\n\nUsage: fh ${command.name} ${command.usage}\n\n${command.help}\n\n${GLOBAL_HELP}`);
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<number> {
+  const [name, ...args] = process.argv.slice(2);
+
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    const command = COMMANDS.find(c => c.name === args[0]);
+    if (command) {
+      printCommandHelp(command);
+    } else {
+      printHelp();
+    }
+    return name ? EXIT_OK : EXIT_ERROR;
+  }
+
+  const command = COMMANDS.find(c => c.name === name);
+  if (!command) {
+    console.error(`Unknown command: ${name}\n`);
+    printHelp();
+    return EXIT_ERROR;
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({ args, options: { ...GLOBAL_OPTIONS, ...command.options }, allowPositionals: true, strict: true });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\nRun fh ${command.name} --help for its options`);
+    return EXIT_ERROR;
+  }
+  const options = parsed.values as Record<string, string | boolean | string[] | undefined>;
+  if (parsed.positionals.length > 0) {
+    console.error(`Unexpected argument: ${parsed.positionals[0]}\n\nRun fh ${command.name} --help for its options`);
+    return EXIT_ERROR;
+  }
+
+  if (options.help) {
+    printCommandHelp(command);
+    return EXIT_OK;
+  }
+
+  const format = (options.format ?? 'table') as OutputFormat;
+  const formats = command.formats ?? [...OUTPUT_FORMATS];
+  if (!formats.includes(format)) {
+    console.error(`fh ${command.name} supports --format ${formats.join(', ')}`);
+    return EXIT_ERROR;
+  }
+  if (options.verbose && options.quiet) {
+    console.error('Use either --verbose or --quiet');
+    return EXIT_ERROR;
+  }
+  if (typeof options.data === 'string') {
+    setTransactionsPath(options.data);
+  }
+
+  const log = createLogger(options.quiet ? 'quiet' : options.verbose ? 'verbose' : 'normal');
+  try {
+    return await command.run({ options, format, log });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return EXIT_ERROR;
+  }
+}
+
+// Run if executed directly
+main().then(code => {
+  process.exitCode = code;
+});
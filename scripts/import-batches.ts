@@ -0,0 +1,145 @@
+import { ParsedTransaction } from './categorization-rules';
+import { readTransactionsFile, writeTransactionsFile, getTransactionsPath } from './transactions-file';
+
+interface ImportBatch {
+  batchId: string;
+  file: string;
+  importedAt: string;
+  transactions: ParsedTransaction[];
+}
+
+/**
+ * Group transactions by the import batch that added them
+ * Transactions imported before batches were tracked have no source and are left out
+ */
+function getImportBatches(transactions: ParsedTransaction[]): ImportBatch[] {
+  const batches = new Map<string, ImportBatch>();
+
+  transactions.forEach(t => {
+    if (!t.source) return;
+    const batch = batches.get(t.source.batchId) || {
+      batchId: t.source.batchId,
+      file: t.source.file,
+      importedAt: t.source.importedAt,
+      transactions: [],
+    };
+    batch.transactions.push(t);
+    batches.set(t.source.batchId, batch);
+  });
+
+  // Newest first
+  return Array.from(batches.values()).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+function hasManualChanges(t: ParsedTransaction): boolean {
+  return Boolean((t.categoryOverride && t.categoryOverride.trim()) || (t.descriptionOverride && t.descriptionOverride.trim()));
+}
+
+/**
+ * List past import batches
+ */
+function listBatches(transactions: ParsedTransaction[]) {
+  const batches = getImportBatches(transactions);
+  const untracked = transactions.filter(t => !t.source).length;
+
+  console.log('📦 Import Batches');
+  console.log('═'.repeat(100));
+
+  if (batches.length === 0) {
+    console.log('No import batches recorded yet');
+  }
+
+  batches.forEach(batch => {
+    const dates = batch.transactions.map(t => t.date).sort();
+    console.log(
+      `${batch.batchId}  ${batch.importedAt}  ${batch.transactions.length.toString().padStart(5)} tx  ` +
+      `${dates[0]} → ${dates[dates.length - 1]}  ${batch.file}`
+    );
+  });
+
+  console.log('═'.repeat(100));
+  if (untracked > 0) {
+    console.log(`${untracked.toLocaleString()} transaction(s) were imported before batches were tracked`);
+  }
+  if (batches.length > 0) {
+    console.log(`\n💡 Tip: Run with --rollback <batch-id> to remove the transactions a batch added`);
+  }
+}
+
+/**
+ * Remove exactly the transactions one batch added
+ */
+function rollbackBatch(
+  transactionsPath: string,
+  transactions: ParsedTransaction[],
+  batchId: string,
+  dryRun: boolean,
+  force: boolean
+) {
+  const batch = getImportBatches(transactions).find(b => b.batchId === batchId);
+  if (!batch) {
+    console.error(`Import batch not found: ${batchId}`);
+    process.exit(1);
+  }
+
+  const withManualChanges = batch.transactions.filter(hasManualChanges);
+  if (withManualChanges.length > 0 && !force) {
+    console.error(`Batch ${batchId} has ${withManualChanges.length} transaction(s) with manual overrides:`);
+    withManualChanges.forEach(t => {
+      console.error(`  [${t.date}] [${t.id}] ${t.descriptionOverride || t.description} → ${t.categoryOverride || t.category}`);
+    });
+    console.error('\nRe-run with --force to roll back anyway and lose those overrides');
+    process.exit(1);
+  }
+
+  console.log(`${dryRun ? 'Would remove' : 'Removing'} ${batch.transactions.length} transaction(s) imported from ${batch.file} at ${batch.importedAt}:`);
+  console.log('─'.repeat(100));
+  batch.transactions.forEach(t => {
+    const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+    const row = t.source?.row ? `:${t.source.row}` : '';
+    console.log(`  - [${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${t.description}  (${t.source?.file}${row})`);
+  });
+  console.log('─'.repeat(100));
+
+  if (dryRun) {
+    console.log('\nDry run: transactions.json was not modified');
+    return;
+  }
+
+  const remaining = transactions.filter(t => t.source?.batchId !== batchId);
+  writeTransactionsFile(transactionsPath, remaining);
+  console.log(`\n✅ Rolled back ${batchId}: ${transactions.length - remaining.length} transaction(s) removed`);
+  console.log(`💡 Remove or fix ${batch.file} in src/movements/ so the next import doesn't bring them back`);
+}
+
+/**
+ * Main function
+ */
+function main() {
+  const transactionsPath = getTransactionsPath();
+  const rollbackIndex = process.argv.indexOf('--rollback');
+  const dryRun = process.argv.includes('--dry-run') || process.argv.includes('-n');
+  const force = process.argv.includes('--force');
+
+  let transactions: ParsedTransaction[];
+  try {
+    transactions = readTransactionsFile(transactionsPath);
+  } catch (error) {
+    console.error(`Error parsing transactions file: ${error}`);
+    process.exit(1);
+  }
+
+  if (rollbackIndex !== -1) {
+    const batchId = process.argv[rollbackIndex + 1];
+    if (!batchId || batchId.startsWith('-')) {
+      console.error('Usage: import-batches --rollback <batch-id> [--dry-run] [--force]');
+      process.exit(1);
+    }
+    rollbackBatch(transactionsPath, transactions, batchId, dryRun, force);
+  } else {
+    listBatches(transactions);
+  }
+}
+
+// Run if executed directly
+main();
@@ -0,0 +1,168 @@
+import { ParsedTransaction } from './categorization-rules';
+import { BalanceGap } from './balance-continuity';
+import { DuplicateResolution } from './duplicate-detection';
+
+/**
+ * A row that could not be converted (bad date or amount)
+ */
+export interface RowFailure {
+  file: string;
+  line?: number;
+  description: string;
+  error: string;
+}
+
+export interface DiffTransaction {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  account: string;
+  category: string;
+}
+
+export interface FileDiff {
+  file: string;
+  batchId?: string;
+  status: 'parsed' | 'skipped';
+  error?: string;
+  parsedCount: number;
+  newTransactions: DiffTransaction[];
+}
+
+export interface CategoryChange {
+  id: string;
+  date: string;
+  description: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * A likely duplicate from an overlapping export and what the import did with it
+ */
+export interface DuplicateDiff {
+  incoming: DiffTransaction;
+  match: DiffTransaction;
+  similarity: number;
+  daysApart: number;
+  resolution: DuplicateResolution;
+}
+
+/**
+ * Everything an import changes (or would change, in a dry run)
+ */
+export interface ImportDiff {
+  dryRun: boolean;
+  files: FileDiff[];
+  categoryChanges: CategoryChange[];
+  failedRows: RowFailure[];
+  duplicates: DuplicateDiff[];
+  balanceGaps: Array<Omit<BalanceGap, 'after' | 'transaction'> & { afterId: string | null; transactionId: string }>;
+  totals: {
+    existing: number;
+    new: number;
+    categoryChanges: number;
+    failedRows: number;
+    skippedFiles: number;
+    duplicates: number;
+    afterImport: number;
+  };
+}
+
+export function toDiffTransaction(t: ParsedTransaction): DiffTransaction {
+  return {
+    id: t.id,
+    date: t.date,
+    description: t.descriptionOverride || t.description,
+    amount: t.amount,
+    type: t.type,
+    account: t.account,
+    category: t.categoryOverride || t.category,
+  };
+}
+
+/**
+ * Find existing transactions whose rule-based category changes after re-running the rules
+ */
+export function findCategoryChanges(
+  existing: ParsedTransaction[],
+  recategorized: ParsedTransaction[]
+): CategoryChange[] {
+  const before = new Map(existing.map(t => [t.id, t]));
+  const changes: CategoryChange[] = [];
+
+  recategorized.forEach(t => {
+    const previous = before.get(t.id);
+    if (previous && previous.category !== t.category) {
+      changes.push({
+        id: t.id,
+        date: t.date,
+        description: t.descriptionOverride || t.description,
+        from: previous.category,
+        to: t.category,
+      });
+    }
+  });
+
+  return changes;
+}
+
+function formatAmount(t: DiffTransaction): string {
+  return t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+}
+
+/**
+ * Print the diff for humans
+ */
+export function printImportDiff(diff: ImportDiff): void {
+  console.log(diff.dryRun ? '\n🔎 Import Dry Run (nothing written)' : '\n📥 Import Summary');
+  console.log('═'.repeat(60));
+  console.log(`Existing transactions:   ${diff.totals.existing.toLocaleString()}`);
+  console.log(`New transactions:        ${diff.totals.new.toLocaleString()}`);
+  console.log(`Category changes:        ${diff.totals.categoryChanges.toLocaleString()}`);
+  console.log(`Failed rows:             ${diff.totals.failedRows.toLocaleString()}`);
+  console.log(`Skipped files:           ${diff.totals.skippedFiles.toLocaleString()}`);
+  console.log(`Duplicate candidates:    ${diff.totals.duplicates.toLocaleString()}`);
+  console.log(`Balance gaps:            ${diff.balanceGaps.length.toLocaleString()}`);
+  console.log(`Transactions after:      ${diff.totals.afterImport.toLocaleString()}`);
+  console.log('═'.repeat(60));
+
+  diff.files.forEach(file => {
+    if (file.status === 'skipped') {
+      console.log(`\n⛔ ${file.file}: skipped (${file.error})`);
+      return;
+    }
+    console.log(`\n📄 ${file.file}: ${file.newTransactions.length} new of ${file.parsedCount} parsed`);
+    file.newTransactions.forEach(t => {
+      console.log(`  + [${t.date}] [${t.id}] ${formatAmount(t).padStart(10)} €  ${t.category.padEnd(15)} ${t.description}`);
+    });
+  });
+
+  if (diff.categoryChanges.length > 0) {
+    console.log('\n🏷️  Category changes after re-running rules:');
+    console.log('─'.repeat(100));
+    diff.categoryChanges.forEach(change => {
+      console.log(`  ~ [${change.date}] [${change.id}] ${change.from} → ${change.to}  ${change.description}`);
+    });
+  }
+
+  if (diff.failedRows.length > 0) {
+    console.log('\n❌ Rows that failed to parse:');
+    console.log('─'.repeat(100));
+    diff.failedRows.forEach(failure => {
+      const location = failure.line ? `${failure.file}:${failure.line}` : failure.file;
+      console.log(`  ! ${location}  ${failure.error}  (${failure.description})`);
+    });
+  }
+
+  if (diff.duplicates.length > 0) {
+    console.log('\n👯 Likely duplicates from overlapping exports:');
+    console.log('─'.repeat(100));
+    diff.duplicates.forEach(duplicate => {
+      console.log(`  = [${duplicate.incoming.date}] [${duplicate.incoming.id}] ${formatAmount(duplicate.incoming).padStart(10)} €  ${duplicate.incoming.description}`);
+      console.log(`    ~ [${duplicate.match.date}] [${duplicate.match.id}] ${(duplicate.similarity * 100).toFixed(0)}% similar, ${duplicate.daysApart} day(s) apart  ${duplicate.match.description}  → ${duplicate.resolution}`);
+    });
+  }
+}
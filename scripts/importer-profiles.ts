@@ -0,0 +1,229 @@
+import { basename } from 'path';
+import { DateFormat, ImportLocale, LocaleFormat, IMPORT_LOCALES } from './locale-format';
+
+export type { DateFormat };
+
+/**
+ * Raw fields extracted from one row of a bank export, before any conversion
+ */
+export interface CSVRow {
+  valorDate: string; // Value date (F.Valor)
+  fecha: string;    // Booking date (Fecha) - may be empty
+  concepto: string;  // Description (Concepto)
+  movimiento: string; // Movement type/details (Movimiento) - may be empty
+  importe: string;  // Amount (Importe) - empty when the export has separate debit/credit columns
+  cargo?: string;   // Debit amount (Cargo), for exports with separate debit/credit columns
+  abono?: string;   // Credit amount (Abono), for exports with separate debit/credit columns
+  disponible: string; // Account balance after transaction (Disponible) - may be empty
+  account?: string; // Account reference (name, IBAN, number...) as the export carries it
+  currency?: string; // ISO currency code, when the export carries it
+  externalId?: string; // Stable ID derived from the bank's own reference, replaces the content hash
+  line?: number; // Line number in the source file, for error reporting
+}
+
+/**
+ * A column is referenced either by its zero-based index or by its header name
+ */
+export type ColumnRef = number | string;
+
+/**
+ * Describes the layout of one bank's CSV export
+ */
+export interface ImporterProfile {
+  id: string;
+  name: string;
+  /** Column delimiter; detected from the data rows when omitted */
+  delimiter?: string;
+  /** Filename pattern that selects this profile without looking at the content */
+  filenamePattern?: RegExp;
+  /** Header sniffing: returns true when the first lines of a file look like this export */
+  detect: (lines: string[]) => boolean;
+  /** Line that closes the metadata block; data (or the column header row) starts after it */
+  headerEndMarker?: RegExp;
+  /** Fixed number of lines to skip when no marker is declared or found */
+  skipLines?: number;
+  /** Patterns for the metadata block; the first capture group holds the value */
+  metadata?: {
+    account?: RegExp;
+    currency?: RegExp;
+  };
+  /** Account ID used when the export doesn't name its account */
+  defaultAccount?: string;
+  /** Whether the first line after the metadata block holds column names */
+  hasColumnHeader: boolean;
+  /** Amounts come from `importe` or, when the export has no such column, from `cargo`/`abono` (debit/credit) */
+  columns: Partial<Record<keyof CSVRow, ColumnRef>> & Record<'valorDate' | 'concepto', ColumnRef>;
+  /** Locale the export writes its amounts and dates in */
+  locale: ImportLocale;
+  /** Overrides the locale's date format */
+  dateFormat?: DateFormat;
+}
+
+/**
+ * Number of lines inspected when sniffing a file's header
+ */
+const SNIFF_LINES = 10;
+
+/**
+ * Get all importer profiles in matching order
+ */
+export function getImporterProfiles(): ImporterProfile[] {
+  return [
+    {
+      id: 'fake-bank',
+      name: 'Fake Bank (semicolon export)',
+      delimiter: ';',
+      detect: (lines) =>
+        lines.some((line) => /^Fake Bank Export/i.test(line.trim())) ||
+        lines.some((line) => /^;\d{2}\/\d{2}\/\d{4};/.test(line)),
+      headerEndMarker: /^-{3,}\s*$/,
+      skipLines: 5,
+      metadata: {
+        account: /^Account:\s*(.+)$/i,
+        currency: /^Currency:\s*([A-Z]{3})\s*$/i,
+      },
+      hasColumnHeader: false,
+      columns: {
+        valorDate: 1,
+        fecha: 2,
+        concepto: 3,
+        movimiento: 4,
+        importe: 5,
+        disponible: 7,
+      },
+      locale: 'es-ES',
+    },
+    {
+      id: 'generic-iso',
+      name: 'Generic CSV (Date,Description,Amount or Debit/Credit,Balance)',
+      detect: (lines) => /^"?date"?[,;\t|].*"?(amount|debit)"?/i.test(lines[0]?.trim() ?? ''),
+      skipLines: 0,
+      hasColumnHeader: true,
+      columns: {
+        valorDate: 'Date',
+        fecha: 'Booking Date',
+        concepto: 'Description',
+        movimiento: 'Type',
+        importe: 'Amount',
+        cargo: 'Debit',
+        abono: 'Credit',
+        disponible: 'Balance',
+      },
+      locale: 'en-US',
+      dateFormat: 'YYYY-MM-DD',
+    },
+  ];
+}
+
+/**
+ * Number and date format of a profile's exports: its locale's, with any overrides applied
+ */
+export function getProfileFormat(profile: ImporterProfile): LocaleFormat {
+  const localeFormat = IMPORT_LOCALES[profile.locale];
+  return { ...localeFormat, dateFormat: profile.dateFormat ?? localeFormat.dateFormat };
+}
+
+/**
+ * Pick the importer profile for a file: filename patterns win, then header sniffing
+ */
+export function resolveImporterProfile(filePath: string, content: string): ImporterProfile {
+  const profiles = getImporterProfiles();
+  const fileName = basename(filePath);
+
+  const byName = profiles.find((profile) => profile.filenamePattern?.test(fileName));
+  if (byName) {
+    return byName;
+  }
+
+  const headLines = content.split(/\r?\n/).slice(0, SNIFF_LINES);
+  const bySniff = profiles.find((profile) => profile.detect(headLines));
+  if (bySniff) {
+    return bySniff;
+  }
+
+  throw new Error(
+    `No importer profile matches ${fileName}. Known profiles: ${profiles.map((p) => p.id).join(', ')}`
+  );
+}
+
+/**
+ * Index of the first line after the metadata block
+ */
+export function findDataStart(lines: string[], profile: ImporterProfile): number {
+  if (profile.headerEndMarker) {
+    const markerIndex = lines.findIndex((line) => profile.headerEndMarker!.test(line));
+    if (markerIndex !== -1) {
+      return markerIndex + 1;
+    }
+  }
+  return profile.skipLines ?? 0;
+}
+
+/**
+ * Read the account and currency declared in the metadata block
+ */
+export function readMetadata(
+  lines: string[],
+  dataStart: number,
+  profile: ImporterProfile
+): { account?: string; currency?: string } {
+  const metadataLines = lines.slice(0, dataStart).map((line) => line.trim());
+  const find = (pattern?: RegExp) => {
+    if (!pattern) return undefined;
+    for (const line of metadataLines) {
+      const match = line.match(pattern);
+      if (match) return match[1].trim();
+    }
+    return undefined;
+  };
+
+  return {
+    account: find(profile.metadata?.account) ?? profile.defaultAccount,
+    currency: find(profile.metadata?.currency)?.toUpperCase(),
+  };
+}
+
+/**
+ * Resolve column references (indexes or header names) to indexes
+ * Throws if the date or description column cannot be found in the header row, or if
+ * neither the amount column nor both debit and credit columns can be
+ */
+export function resolveColumnIndexes(
+  profile: ImporterProfile,
+  headerColumns: string[] | null
+): Partial<Record<keyof CSVRow, number>> {
+  const normalizedHeader = headerColumns?.map((column) => column.trim().toLowerCase());
+  const indexes: Partial<Record<keyof CSVRow, number>> = {};
+
+  for (const [field, ref] of Object.entries(profile.columns) as Array<[keyof CSVRow, ColumnRef | undefined]>) {
+    if (ref === undefined) continue;
+
+    if (typeof ref === 'number') {
+      indexes[field] = ref;
+      continue;
+    }
+
+    const index = normalizedHeader ? normalizedHeader.indexOf(ref.toLowerCase()) : -1;
+    if (index !== -1) {
+      indexes[field] = index;
+    } else if (field === 'valorDate' || field === 'concepto') {
+      throw new Error(`Profile ${profile.id}: column "${ref}" (${field}) not found in header`);
+    }
+  }
+
+  // Amounts come from one signed column or from a debit/credit pair
+  if (indexes.importe !== undefined) {
+    delete indexes.cargo;
+    delete indexes.abono;
+  } else if (indexes.cargo === undefined || indexes.abono === undefined) {
+    const lookedFor = [profile.columns.importe, profile.columns.cargo, profile.columns.abono]
+      .filter((ref) => ref !== undefined)
+      .map((ref) => `"${ref}"`)
+      .join(', ');
+    throw new Error(
+      `Profile ${profile.id}: needs an importe column or both cargo and abono columns (looked for ${lookedFor || 'none mapped'})`
+    );
+  }
+
+  return indexes;
+}
@@ -0,0 +1,149 @@
+import { readFileSync } from 'fs';
+import { PENDING_CATEGORY_ID } from '../src/config/categories-schema';
+import { ParsedTransaction, categorizeTransactionWithMatch } from './categorization-rules';
+import { writeFileAtomic } from './atomic-write';
+
+/**
+ * Value of a mapping entry that re-runs the rules instead of naming a category
+ */
+export const RERUN_RULES = '@rules';
+
+/**
+ * A category ID on a transaction that isn't in the categories file
+ */
+export interface InvalidCategory {
+  transaction: ParsedTransaction;
+  invalidCategory: string;
+  field: 'category' | 'categoryOverride';
+}
+
+/**
+ * What to do with an invalid category ID: a valid category ID to map it to, or RERUN_RULES
+ */
+export type CategoryResolution = string;
+
+/**
+ * One field rewritten by a fix
+ */
+export interface CategoryFix {
+  id: string;
+  field: 'category' | 'categoryOverride';
+  from: string;
+  to: string | null; // null when an invalid override was removed
+  how: 'mapped' | 'rules' | 'pending';
+}
+
+/**
+ * Find transactions whose category or override isn't a valid category ID
+ */
+export function findInvalidCategories(transactions: ParsedTransaction[], validCategoryIds: string[]): InvalidCategory[] {
+  const valid = new Set(validCategoryIds);
+  const invalid: InvalidCategory[] = [];
+
+  transactions.forEach(t => {
+    if (!valid.has(t.category)) {
+      invalid.push({ transaction: t, invalidCategory: t.category, field: 'category' });
+    }
+    if (t.categoryOverride && t.categoryOverride.trim() && !valid.has(t.categoryOverride)) {
+      invalid.push({ transaction: t, invalidCategory: t.categoryOverride, field: 'categoryOverride' });
+    }
+  });
+
+  return invalid;
+}
+
+/**
+ * Read a mapping file: a JSON object from invalid category ID to a valid category ID or "@rules"
+ * Throws an error listing every problem found
+ */
+export function readCategoryMapping(filePath: string, validCategoryIds: string[]): Map<string, CategoryResolution> {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read mapping file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`Invalid mapping file ${filePath}: expected an object from invalid category ID to category ID or "${RERUN_RULES}"`);
+  }
+
+  const problems: string[] = [];
+  const mapping = new Map<string, CategoryResolution>();
+  Object.entries(json).forEach(([from, to]) => {
+    if (typeof to !== 'string') {
+      problems.push(`${from}: expected a category ID or "${RERUN_RULES}"`);
+    } else if (to !== RERUN_RULES && !validCategoryIds.includes(to)) {
+      problems.push(`${from}: unknown category "${to}"`);
+    } else {
+      mapping.set(from, to);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid mapping file ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+  return mapping;
+}
+
+/**
+ * Rewrite invalid categories with their resolution. An invalid category becomes the mapped
+ * category, what the rules say, or pendiente; an invalid override is replaced by the mapped
+ * category, or removed so the rules (or pendiente) decide again. Invalid IDs without a
+ * resolution are left as they are
+ */
+export function fixInvalidCategories(
+  transactions: ParsedTransaction[],
+  invalid: InvalidCategory[],
+  resolutions: Map<string, CategoryResolution>
+): { transactions: ParsedTransaction[]; fixes: CategoryFix[] } {
+  const fixes: CategoryFix[] = [];
+  const byId = new Map<string, InvalidCategory[]>();
+  invalid.forEach(item => byId.set(item.transaction.id, [...(byId.get(item.transaction.id) || []), item]));
+
+  const fixed = transactions.map(t => {
+    const items = (byId.get(t.id) || []).filter(item => resolutions.has(item.invalidCategory));
+    if (items.length === 0) return t;
+
+    let result: ParsedTransaction = { ...t };
+    items.forEach(item => {
+      const resolution = resolutions.get(item.invalidCategory)!;
+      if (resolution !== RERUN_RULES && resolution !== PENDING_CATEGORY_ID) {
+        result[item.field] = resolution;
+        if (item.field === 'category') delete result.categorizedBy;
+        fixes.push({ id: t.id, field: item.field, from: item.invalidCategory, to: resolution, how: 'mapped' });
+        return;
+      }
+
+      const how = resolution === RERUN_RULES ? 'rules' : 'pending';
+      if (item.field === 'categoryOverride') {
+        delete result.categoryOverride;
+        fixes.push({ id: t.id, field: item.field, from: item.invalidCategory, to: null, how });
+      }
+      // Without its override the row is categorized again, even if its category was valid
+      if (how === 'rules') {
+        const { category, match } = categorizeTransactionWithMatch(result);
+        if (item.field === 'category') {
+          fixes.push({ id: t.id, field: item.field, from: item.invalidCategory, to: category, how });
+        }
+        result = { ...result, category, categorizedBy: match };
+      } else {
+        if (item.field === 'category') {
+          fixes.push({ id: t.id, field: item.field, from: item.invalidCategory, to: PENDING_CATEGORY_ID, how });
+        }
+        result = { ...result, category: PENDING_CATEGORY_ID };
+        delete result.categorizedBy;
+      }
+    });
+    return result;
+  });
+
+  return { transactions: fixed, fixes };
+}
+
+/**
+ * Write the change report of a fix next to its backup
+ */
+export function writeFixReport(backupPath: string, report: unknown): string {
+  const reportPath = backupPath.replace(/\.json$/, '.fixes.json');
+  writeFileAtomic(reportPath, JSON.stringify(report, null, 2) + '\n');
+  return reportPath;
+}
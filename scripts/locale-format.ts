@@ -0,0 +1,148 @@
+/**
+ * Locale-aware parsing of the amounts and dates found in bank exports
+ */
+
+/**
+ * Date layouts: DD day, MM month, YYYY or YY year, anything else is a literal separator
+ */
+export type DateFormat =
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'YYYY-MM-DD'
+  | 'DD-MM-YYYY'
+  | 'DD-MM-YY'
+  | 'DD/MM/YY'
+  | 'DD.MM.YYYY';
+
+/**
+ * How an export writes numbers and dates
+ */
+export interface LocaleFormat {
+  dateFormat: DateFormat;
+  decimalSeparator: ',' | '.';
+  /** Digit grouping character; '' when amounts are never grouped */
+  thousandsSeparator: '.' | ',' | ' ' | "'" | '';
+}
+
+export type ImportLocale = 'es-ES' | 'en-US' | 'en-GB' | 'de-CH';
+
+/**
+ * Number and date conventions of the locales bank exports come in
+ */
+export const IMPORT_LOCALES: Record<ImportLocale, LocaleFormat> = {
+  'es-ES': { dateFormat: 'DD/MM/YYYY', decimalSeparator: ',', thousandsSeparator: '.' },
+  'en-US': { dateFormat: 'MM/DD/YYYY', decimalSeparator: '.', thousandsSeparator: ',' },
+  'en-GB': { dateFormat: 'DD/MM/YYYY', decimalSeparator: '.', thousandsSeparator: ',' },
+  'de-CH': { dateFormat: 'DD.MM.YYYY', decimalSeparator: '.', thousandsSeparator: "'" },
+};
+
+/**
+ * Currency symbols and codes that may surround an amount
+ */
+const CURRENCY_MARKERS = /[€$£]|\b(?:EUR|USD|GBP|CHF)\b/gi;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse an amount written in the given locale
+ * Accepts grouped thousands ("1.234,56"), a leading or trailing minus ("1.234,56-"),
+ * parentheses for negatives ("(1.234,56)"), a leading plus and a currency symbol or code
+ * Throws on anything that can't be read unambiguously, e.g. "1,234.56" in a
+ * comma-decimal locale or a group that isn't three digits long
+ */
+export function parseAmount(amountStr: string, format: Omit<LocaleFormat, 'dateFormat'> = IMPORT_LOCALES['es-ES']): number {
+  let value = amountStr
+    .replace(CURRENCY_MARKERS, '')
+    .replace(/[\u00a0\u202f]/g, ' ') // Non-breaking and narrow spaces
+    .replace(/\u2212/g, '-') // Unicode minus sign
+    .trim();
+
+  let negative = false;
+  const parenthesized = value.match(/^\((.*)\)$/);
+  if (parenthesized) {
+    negative = true;
+    value = parenthesized[1].trim();
+  }
+
+  const leadingSign = value.match(/^[-+]/);
+  const trailingSign = value.match(/[-+]$/);
+  if (leadingSign && trailingSign) {
+    throw new Error(`Invalid amount format: ${amountStr} (sign on both ends)`);
+  }
+  const sign = leadingSign?.[0] ?? trailingSign?.[0];
+  if (sign) {
+    if (parenthesized) {
+      throw new Error(`Invalid amount format: ${amountStr} (sign inside parentheses)`);
+    }
+    negative = sign === '-';
+    value = leadingSign ? value.substring(1).trim() : value.substring(0, value.length - 1).trim();
+  }
+
+  const decimal = escapeRegExp(format.decimalSeparator);
+  const grouped = format.thousandsSeparator
+    ? `\\d{1,3}(?:${escapeRegExp(format.thousandsSeparator)}\\d{3})+`
+    : null;
+  const pattern = new RegExp(`^(?:\\d+${grouped ? `|${grouped}` : ''})(?:${decimal}\\d+)?$`);
+  if (!pattern.test(value)) {
+    throw new Error(
+      `Invalid amount format: ${amountStr} (expected decimal "${format.decimalSeparator}"` +
+      `${format.thousandsSeparator ? `, thousands "${format.thousandsSeparator}"` : ''})`
+    );
+  }
+
+  const ungrouped = format.thousandsSeparator ? value.split(format.thousandsSeparator).join('') : value;
+  const digits = ungrouped.replace(format.decimalSeparator, '.');
+  const amount = parseFloat(digits);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Expand a two-digit year: 20YY, unless that lies more than a year in the future
+ */
+function expandYear(twoDigits: number): number {
+  const year = 2000 + twoDigits;
+  return year > new Date().getFullYear() + 1 ? year - 100 : year;
+}
+
+/**
+ * Convert a date in the given format to YYYY-MM-DD
+ * Throws when the value doesn't follow the format or isn't a real calendar date
+ * (so a DD/MM date read as MM/DD fails instead of silently swapping day and month)
+ */
+export function convertDate(dateStr: string, dateFormat: DateFormat = 'DD/MM/YYYY'): string {
+  const tokens: string[] = [];
+  const source = dateFormat
+    .split(/(YYYY|YY|MM|DD)/)
+    .map(part => {
+      if (part === 'YYYY') { tokens.push(part); return '(\\d{4})'; }
+      if (part === 'YY') { tokens.push(part); return '(\\d{2})'; }
+      if (part === 'MM' || part === 'DD') { tokens.push(part); return '(\\d{1,2})'; }
+      return escapeRegExp(part);
+    })
+    .join('');
+
+  const match = dateStr.trim().match(new RegExp(`^${source}$`));
+  if (!match) {
+    throw new Error(`Invalid date format: ${dateStr} (expected ${dateFormat})`);
+  }
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+  tokens.forEach((token, index) => {
+    const value = parseInt(match[index + 1], 10);
+    if (token === 'YYYY') year = value;
+    else if (token === 'YY') year = expandYear(value);
+    else if (token === 'MM') month = value;
+    else day = value;
+  });
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) {
+    throw new Error(`Invalid date: ${dateStr} is not a calendar date in ${dateFormat}`);
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
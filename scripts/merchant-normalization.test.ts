@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MerchantsFile, normalizeMerchant } from './merchant-normalization';
+
+const merchants: MerchantsFile = {
+  version: 1,
+  locations: ['valencia'],
+  merchants: [
+    { name: 'Uber', aliases: ['uber', 'ubr*'] },
+    { name: '7-Eleven', aliases: ['7 eleven'] },
+    { name: 'A&P', aliases: ['a&p'] },
+  ],
+};
+
+describe('normalizeMerchant', () => {
+  it('matches aliases on whole words only', () => {
+    assert.equal(normalizeMerchant('UBER *TRIP HELP.UBER.COM', merchants), 'Uber');
+    assert.equal(normalizeMerchant('UBR* PENDING', merchants), 'Uber');
+    assert.equal(normalizeMerchant('Tuberías Garcia SL', merchants), 'Tuberías Garcia SL');
+  });
+
+  it('keeps the numbers and single characters of an alias', () => {
+    assert.equal(normalizeMerchant('COMPRA TARJ. 5402XXXX 7-ELEVEN VALENCIA ES', merchants), '7-Eleven');
+    assert.equal(normalizeMerchant('ELEVEN SPORTS SUBSCRIPTION', merchants), 'Eleven Sports Subscription');
+    assert.equal(normalizeMerchant('A&P STORE 123', merchants), 'A&P');
+  });
+});
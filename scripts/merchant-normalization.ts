@@ -0,0 +1,161 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { ParsedTransaction } from './categorization-rules';
+import { formatIssues } from '../src/config/schema-issues';
+
+/**
+ * Payment-processor and card-purchase prefixes banks put before the merchant
+ */
+const PROCESSOR_PREFIXES: RegExp[] = [
+  /^compra\s+(?:tarj(?:eta)?\.?|con\s+tarjeta)\s*/i,
+  /^(?:compra|pago)\s+(?:movil\s+|móvil\s+)?en\s+/i,
+  /^(?:card\s+purchase|pos\s+purchase|contactless)\s+/i,
+  /^(?:pos|tpv)\s+/i,
+  /^(?:paypal|sq|sumup|zettle|izettle|stripe|sp)\s*[*_]\s*/i,
+];
+
+/**
+ * Tokens that identify the payment, not the merchant
+ */
+const NOISE_TOKENS: RegExp[] = [
+  /^[\dX*]*[X*]{4,}[\dX*]*$/i, // Masked card numbers: 5402XXXX, ****1234
+  /^\d{4,}$/, // Terminal IDs, card numbers and references
+  /^(?=.*\d{3})[A-Z]*\d[A-Z\d]{5,}$/i, // Alphanumeric terminal IDs: T0012345, REF88123
+  /^\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?$/, // Dates: 12/03, 12.03.2025
+  /^\d{4}-\d{2}-\d{2}$/, // ISO dates
+  /^\d{1,2}:\d{2}(?::\d{2})?$/, // Times
+];
+
+/**
+ * Country codes banks append after the city
+ */
+const COUNTRY_CODES = new Set(['ES', 'ESP', 'PT', 'FR', 'DE', 'IT', 'GB', 'UK', 'IE', 'NL', 'BE', 'LU', 'CH', 'AT', 'US', 'USA']);
+
+/**
+ * Schema of the merchants file
+ */
+const merchantsFileSchema = z
+  .object({
+    version: z.literal(1),
+    locations: z.array(z.string().min(1)), // City names stripped from the end of descriptions
+    merchants: z.array(
+      z
+        .object({
+          name: z.string().min(1), // Canonical merchant name
+          aliases: z.array(z.string().min(1)).min(1), // Words any of its descriptions contain, ignoring case and accents
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export type MerchantsFile = z.infer<typeof merchantsFileSchema>;
+
+/**
+ * Default location of the merchants file
+ */
+export function getMerchantsPath(): string {
+  return join(process.cwd(), 'src', 'config', 'merchants.json');
+}
+
+/**
+ * Read and validate the merchants file
+ */
+export function readMerchantsFile(filePath: string = getMerchantsPath()): MerchantsFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read merchants file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = merchantsFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = formatIssues(parsed.error).map(problem => `  - ${problem}`);
+    throw new Error(`Invalid merchants file ${filePath}:\n${problems.join('\n')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Title-case a shouted description, keeping short acronyms like BP or KFC
+ */
+function toDisplayCase(text: string): string {
+  if (text !== text.toUpperCase()) return text;
+  return text
+    .split(' ')
+    .map(word => (word.length <= 3 && !/[AEIOUÁÉÍÓÚ]/.test(word) ? word : word.charAt(0) + word.slice(1).toLowerCase()))
+    .join(' ');
+}
+
+/**
+ * Words of a description or alias: lowercased, without accents, split at anything that
+ * isn't a letter or digit. Numbers and single characters are kept, so "7 eleven" and "a&p"
+ * match as written
+ */
+function tokenizeForAliases(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether the words of an alias appear, in order and as whole words, among the words of a
+ * description, so "uber" matches "UBER *TRIP" but not "TUBERIAS GARCIA"
+ */
+function containsAlias(descriptionTokens: string[], alias: string): boolean {
+  const aliasTokens = tokenizeForAliases(alias);
+  if (aliasTokens.length === 0) return false;
+  for (let start = 0; start + aliasTokens.length <= descriptionTokens.length; start++) {
+    if (aliasTokens.every((token, offset) => descriptionTokens[start + offset] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Derive the merchant from a raw bank description: strip processor prefixes, card numbers,
+ * terminal IDs, dates and the city/country suffix, then map known aliases to their
+ * canonical name. Returns undefined when nothing is left
+ */
+export function normalizeMerchant(description: string, merchants: MerchantsFile): string | undefined {
+  const descriptionTokens = tokenizeForAliases(description);
+  const known = merchants.merchants.find(merchant =>
+    merchant.aliases.some(alias => containsAlias(descriptionTokens, alias))
+  );
+  if (known) return known.name;
+
+  let text = description.trim();
+  for (let previous = ''; previous !== text; ) {
+    previous = text;
+    PROCESSOR_PREFIXES.forEach(prefix => {
+      text = text.replace(prefix, '');
+    });
+  }
+
+  const tokens = text.split(/\s+/).filter(token => token && !NOISE_TOKENS.some(noise => noise.test(token)));
+
+  // City and country come last, in either order: MERCADONA VALENCIA ES
+  const locations = new Set(merchants.locations.map(location => location.toLowerCase()));
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    if (COUNTRY_CODES.has(last) || locations.has(last.toLowerCase())) {
+      tokens.pop();
+    } else {
+      break;
+    }
+  }
+
+  const merchant = tokens.join(' ').replace(/^[\s.,;:*#/_-]+|[\s.,;:*#/_-]+$/g, '');
+  return merchant ? toDisplayCase(merchant) : undefined;
+}
+
+/**
+ * Normalization stage of the import: set `merchant` on every transaction from its description
+ */
+export function applyMerchantNormalization<T extends ParsedTransaction>(transactions: T[], merchants: MerchantsFile): T[] {
+  return transactions.map(t => ({ ...t, merchant: normalizeMerchant(t.description, merchants) }));
+}
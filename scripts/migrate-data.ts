@@ -0,0 +1,71 @@
+import { existsSync, readFileSync } from 'fs';
+import { CURRENT_SCHEMA_VERSION, migrateTransactionsData, validateTransactionsFile } from '../src/config/transactions-schema';
+import { getTransactionsPath, writeTransactionsFile } from './transactions-file';
+import { backupFile } from './atomic-write';
+
+/**
+ * Main function
+ */
+function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const transactionsPath = getTransactionsPath();
+
+  if (!existsSync(transactionsPath)) {
+    console.log(`No transactions file at ${transactionsPath}; nothing to migrate`);
+    return;
+  }
+
+  let json: unknown;
+  let applied: ReturnType<typeof migrateTransactionsData>;
+  try {
+    json = JSON.parse(readFileSync(transactionsPath, 'utf-8'));
+    applied = migrateTransactionsData(json);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  console.log('🗄️  Transactions File Migration');
+  console.log('═'.repeat(60));
+  console.log(`File:            ${transactionsPath}`);
+  console.log(`Schema version:  ${applied.from}`);
+  console.log(`Current version: ${CURRENT_SCHEMA_VERSION}`);
+  console.log('═'.repeat(60));
+
+  const { file, problems } = validateTransactionsFile(json);
+  if (applied.applied.length === 0) {
+    if (!file) {
+      console.error(`\n❌ The file is at the current version but doesn't match the schema:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+      process.exit(1);
+    }
+    console.log('\n✅ Already at the current version');
+    return;
+  }
+
+  console.log('\nMigrations:');
+  applied.applied.forEach(migration => console.log(`  ${migration.version}. ${migration.description}`));
+
+  if (!file) {
+    console.error(`\n❌ The migrated file doesn't match the schema; nothing was written:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    console.log('\nDry run: the transactions file was not modified');
+    return;
+  }
+
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  try {
+    const backupPath = backupFile(transactionsPath, timestamp);
+    writeTransactionsFile(transactionsPath, file.transactions);
+    console.log(`\n💾 Backup: ${backupPath}`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  console.log(`✅ Migrated ${file.transactions.length} transactions to schema version ${CURRENT_SCHEMA_VERSION}`);
+}
+
+// Run if executed directly
+main();
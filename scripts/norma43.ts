@@ -0,0 +1,186 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { CSVRow } from './importer-profiles';
+
+/**
+ * File extensions used by banks for Norma 43 (AEB Cuaderno 43) statements
+ */
+export const NORMA43_EXTENSIONS = ['.n43', '.q43', '.aeb', '.c43'];
+
+/**
+ * Common concept codes (positions 23-24 of record 22)
+ */
+const COMMON_CONCEPTS: Record<string, string> = {
+  '01': 'Talones - Reintegros',
+  '02': 'Abonarés - Entregas - Ingresos',
+  '03': 'Domiciliados - Recibos - Letras - Pagos por su cuenta',
+  '04': 'Giros - Transferencias - Traspasos - Cheques',
+  '05': 'Amortizaciones préstamos, créditos, etc.',
+  '06': 'Remesas efectos',
+  '07': 'Suscripciones - Div. pasivos - Canjes',
+  '08': 'Div. cupones - Prima junta - Amortizaciones',
+  '09': 'Operaciones de bolsa y/o compra/venta valores',
+  '10': 'Cheques gasolina',
+  '11': 'Cajero automático',
+  '12': 'Tarjetas de crédito - Tarjetas débito',
+  '13': 'Operaciones extranjero',
+  '14': 'Devoluciones e impagados',
+  '15': 'Nóminas - Seguros sociales',
+  '16': 'Timbres - Corretaje - Póliza',
+  '17': 'Intereses - Comisiones - Custodia - Gastos e impuestos',
+  '98': 'Anulaciones - Correcciones asiento',
+  '99': 'Varios',
+};
+
+/**
+ * ISO 4217 numeric codes used in record 11 (positions 48-50)
+ */
+const CURRENCIES: Record<string, string> = {
+  '978': 'EUR',
+  '840': 'USD',
+  '826': 'GBP',
+  '756': 'CHF',
+};
+
+/**
+ * Check whether a file should be read as a Norma 43 statement
+ */
+export function isNorma43File(filePath: string): boolean {
+  return NORMA43_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Read a 1-based, inclusive slice of a fixed-width record
+ */
+function field(record: string, from: number, to: number): string {
+  return record.substring(from - 1, to);
+}
+
+/**
+ * Convert YYMMDD to YYYY-MM-DD
+ */
+function convertN43Date(value: string, lineNumber: number): string {
+  if (!/^\d{6}$/.test(value)) {
+    throw new Error(`Line ${lineNumber}: invalid date "${value}"`);
+  }
+  return `20${value.substring(0, 2)}-${value.substring(2, 4)}-${value.substring(4, 6)}`;
+}
+
+/**
+ * Convert a 14-digit amount with 2 implicit decimals and a debit/credit key
+ * ('1' = debit, '2' = credit) into a signed amount in cents
+ */
+function convertN43Amount(value: string, debitCredit: string, lineNumber: number): number {
+  if (!/^\d{14}$/.test(value)) {
+    throw new Error(`Line ${lineNumber}: invalid amount "${value}"`);
+  }
+  const cents = parseInt(value, 10);
+  return debitCredit === '1' ? -cents : cents;
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Parse a Norma 43 statement into CSV-like rows
+ *
+ * Record 11 (account header) sets the account and opening balance, each record 22
+ * is a movement, records 23 carry its free-text concepts, and record 33 closes the
+ * account with the final balance. Statements don't carry a per-movement balance, so
+ * it is computed from the opening balance and checked against record 33.
+ * Dates are returned as YYYY-MM-DD and amounts with a dot decimal separator.
+ */
+export function parseNorma43(filePath: string): CSVRow[] {
+  // Banks generate these files in Latin-1
+  const content = readFileSync(filePath, 'latin1');
+  const lines = content.split(/\r?\n/);
+
+  const rows: CSVRow[] = [];
+  let account: string | null = null;
+  let currency = '';
+  let balanceCents = 0;
+  let current: { row: CSVRow; concepts: string[]; references: string[]; commonConcept: string } | null = null;
+
+  const flushMovement = () => {
+    if (!current) return;
+    const description = current.concepts.join(' ').replace(/\s+/g, ' ').trim();
+    current.row.concepto =
+      description || current.references.join(' ').trim() || COMMON_CONCEPTS[current.commonConcept] || 'Movimiento';
+    rows.push(current.row);
+    current = null;
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (!line.trim()) return;
+
+    const recordType = field(line, 1, 2);
+
+    switch (recordType) {
+      case '11': {
+        flushMovement();
+        account = `${field(line, 3, 6)}-${field(line, 7, 10)}-${field(line, 11, 20)}`;
+        currency = CURRENCIES[field(line, 48, 50)] || field(line, 48, 50);
+        balanceCents = convertN43Amount(field(line, 34, 47), field(line, 33, 33), lineNumber);
+        break;
+      }
+      case '22': {
+        flushMovement();
+        if (!account) {
+          throw new Error(`Line ${lineNumber}: movement record before any account header (11)`);
+        }
+        const amountCents = convertN43Amount(field(line, 29, 42), field(line, 28, 28), lineNumber);
+        balanceCents += amountCents;
+        const commonConcept = field(line, 23, 24);
+        current = {
+          row: {
+            valorDate: convertN43Date(field(line, 17, 22), lineNumber),
+            fecha: convertN43Date(field(line, 11, 16), lineNumber),
+            concepto: '',
+            movimiento: COMMON_CONCEPTS[commonConcept] || commonConcept,
+            importe: formatCents(amountCents),
+            disponible: formatCents(balanceCents),
+            account,
+            currency,
+            line: lineNumber,
+          },
+          concepts: [],
+          references: [field(line, 53, 64).trim(), field(line, 65, 80).trim()].filter(Boolean),
+          commonConcept,
+        };
+        break;
+      }
+      case '23': {
+        if (!current) {
+          console.warn(`  Line ${lineNumber}: concept record without a movement, ignored`);
+          break;
+        }
+        current.concepts.push(field(line, 5, 42).trim(), field(line, 43, 80).trim());
+        break;
+      }
+      case '33': {
+        flushMovement();
+        const finalCents = convertN43Amount(field(line, 60, 73), field(line, 59, 59), lineNumber);
+        if (finalCents !== balanceCents) {
+          console.warn(
+            `  Line ${lineNumber}: account ${account} final balance ${formatCents(finalCents)} ` +
+            `does not match computed balance ${formatCents(balanceCents)}`
+          );
+        }
+        account = null;
+        break;
+      }
+      case '24': // Currency equivalence - not used
+        break;
+      case '88': // End of file
+        flushMovement();
+        break;
+      default:
+        console.warn(`  Line ${lineNumber}: unknown record type "${recordType}", ignored`);
+    }
+  });
+
+  flushMovement();
+  return rows;
+}
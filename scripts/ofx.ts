@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { CSVRow } from './importer-profiles';
+
+/**
+ * File extensions used for OFX statements (QFX is Quicken's OFX variant)
+ */
+export const OFX_EXTENSIONS = ['.ofx', '.qfx'];
+
+/**
+ * Check whether a file should be read as an OFX/QFX statement
+ */
+export function isOFXFile(filePath: string): boolean {
+  return OFX_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Read an OFX file honouring the charset declared in its header
+ * OFX 1.x files are often Windows-1252; Latin-1 is close enough for bank data
+ */
+function readOFXContent(filePath: string): string {
+  const buffer = readFileSync(filePath);
+  const head = buffer.subarray(0, 512).toString('latin1');
+  const isLatin = /CHARSET:\s*(1252|8859-1|ISO-8859-1)/i.test(head) || /encoding="(windows-1252|iso-8859-1)"/i.test(head);
+  return buffer.toString(isLatin ? 'latin1' : 'utf-8');
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the value of a leaf element
+ * Works for both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x)
+ */
+function readTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+/**
+ * Extract every aggregate <TAG>...</TAG> block
+ */
+function readBlocks(content: string, tag: string): string[] {
+  return content.match(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'gi')) ?? [];
+}
+
+/**
+ * 1-based line where a block starts in the file, for provenance and error reporting
+ */
+function lineOf(content: string, block: string): number | undefined {
+  const offset = content.indexOf(block);
+  return offset === -1 ? undefined : content.substring(0, offset).split('\n').length;
+}
+
+/**
+ * Convert an OFX datetime (YYYYMMDD[HHMMSS[.XXX][[+-]TZ:NAME]]) to YYYY-MM-DD
+ */
+function convertOFXDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid OFX date: ${value}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Build a stable transaction ID from the account and the bank's FITID
+ * FITIDs are unique per account, so re-downloads of the same statement keep their IDs
+ */
+function buildOFXId(account: string, fitId: string): string {
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9_-]/g, '');
+  return `tx_ofx_${safe(account)}_${safe(fitId)}`;
+}
+
+/**
+ * Parse an OFX/QFX statement into CSV-like rows
+ *
+ * Each STMTTRN entry becomes a row, the account comes from the enclosing
+ * BANKACCTFROM (bank statements) or CCACCTFROM (credit card statements), and
+ * the row ID is derived from the FITID instead of the content hash.
+ * Dates are returned as YYYY-MM-DD and amounts with a dot decimal separator.
+ */
+export function parseOFX(filePath: string): CSVRow[] {
+  const content = readOFXContent(filePath);
+  const statements = [...readBlocks(content, 'STMTRS'), ...readBlocks(content, 'CCSTMTRS')];
+
+  if (statements.length === 0) {
+    throw new Error('No bank (STMTRS) or credit card (CCSTMTRS) statement found');
+  }
+
+  const rows: CSVRow[] = [];
+
+  for (const statement of statements) {
+    const accountBlock = readBlocks(statement, 'BANKACCTFROM')[0] ?? readBlocks(statement, 'CCACCTFROM')[0];
+    const account = accountBlock ? readTag(accountBlock, 'ACCTID') : '';
+    if (!account) {
+      throw new Error('Statement without BANKACCTFROM/CCACCTFROM account ID');
+    }
+    const currency = readTag(statement, 'CURDEF').toUpperCase();
+
+    for (const entry of readBlocks(statement, 'STMTTRN')) {
+      const fitId = readTag(entry, 'FITID');
+      const posted = readTag(entry, 'DTPOSTED');
+      const amount = readTag(entry, 'TRNAMT').replace(',', '.');
+
+      if (!fitId || !posted || !amount) {
+        console.warn(`  Skipping STMTTRN without FITID, DTPOSTED or TRNAMT in account ${account}`);
+        continue;
+      }
+
+      const name = readTag(entry, 'NAME');
+      const memo = readTag(entry, 'MEMO');
+      const description = name && memo && !name.includes(memo) ? `${name} ${memo}` : name || memo;
+      const available = readTag(entry, 'DTAVAIL');
+
+      rows.push({
+        valorDate: convertOFXDate(available || posted),
+        fecha: convertOFXDate(posted),
+        concepto: description || readTag(entry, 'TRNTYPE'),
+        movimiento: readTag(entry, 'TRNTYPE'),
+        importe: amount,
+        disponible: '',
+        account,
+        currency: currency || undefined,
+        externalId: buildOFXId(account, fitId),
+        line: lineOf(content, entry),
+      });
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,38 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { cpSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EXIT_FINDINGS } from './cli';
+
+const CONFIG_FILES = ['categories.json', 'categorization-rules.json', 'merchants.json', 'transactions.json'];
+
+describe('parse-transactions', () => {
+  const root = process.cwd();
+  let dir: string;
+
+  // Import into a copy of the data files, so the tests never touch the real ones
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'parse-transactions-'));
+    CONFIG_FILES.forEach(file => cpSync(join(root, 'src', 'config', file), join(dir, 'src', 'config', file)));
+    mkdirSync(join(dir, 'src', 'movements'), { recursive: true });
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exits with EXIT_FINDINGS when a movement file cannot be read', () => {
+    writeFileSync(join(dir, 'src', 'movements', 'unreadable.csv'), 'not;a;bank;export\n1;2;3;4\n');
+
+    const run = spawnSync(join(root, 'node_modules', '.bin', 'tsx'), [join(root, 'scripts', 'parse-transactions.ts'), '--dry-run'], {
+      cwd: dir,
+      encoding: 'utf-8',
+    });
+
+    assert.equal(run.status, EXIT_FINDINGS, run.stderr);
+    assert.match(run.stderr, /Skipping unreadable\.csv/);
+    assert.match(run.stderr, /1 file\(s\) could not be read: unreadable\.csv/);
+  });
+});
@@ -1,28 +1,50 @@
-import { readFileSync, writeFileSync, existsSync, readdirSync } from 'fs';
-import { join, extname } from 'path';
+import { readFileSync, readdirSync } from 'fs';
+import { join, extname, basename } from 'path';
 import { createHash } from 'crypto';
-import { applyRulesToTransactions } from './categorization-rules';
+import { ParsedTransaction, applyRulesToTransactions, getCategorizationRules } from './categorization-rules';
+import { findAccountByReference, ACCOUNTS } from '../src/config/accounts';
+import { checkBalanceContinuity } from './balance-continuity';
+import { trainClassifier, applyClassifierToPending, MIN_CONFIDENCE } from './category-classifier';
+import { MerchantsFile, readMerchantsFile, applyMerchantNormalization } from './merchant-normalization';
+import {
+  DuplicateMode,
+  DUPLICATE_MODES,
+  findDuplicateCandidates,
+  resolveDuplicateCandidates,
+  applyDuplicateMerges,
+} from './duplicate-detection';
+import { readTransactionsFile, writeTransactionsFile, getTransactionsPath } from './transactions-file';
+import {
+  ImportDiff,
+  FileDiff,
+  RowFailure,
+  toDiffTransaction,
+  findCategoryChanges,
+  printImportDiff,
+} from './import-diff';
+import {
+  CSVRow,
+  ImporterProfile,
+  getProfileFormat,
+  resolveImporterProfile,
+  findDataStart,
+  readMetadata,
+  resolveColumnIndexes,
+} from './importer-profiles';
+import { isNorma43File, parseNorma43, NORMA43_EXTENSIONS } from './norma43';
+import { isOFXFile, parseOFX, OFX_EXTENSIONS } from './ofx';
+import { isCamtFile, parseCamt } from './camt';
+import { CSVEncoding, decodeCSV, detectDelimiter, tokenizeCSV } from './csv-reader';
+import { LocaleFormat, convertDate, parseAmount } from './locale-format';
+import { EXIT_ERROR, EXIT_FINDINGS, isMainModule } from './cli';
 
-interface CSVRow {
-  valorDate: string; // F.Valor column (column 1)
-  fecha: string;    // Fecha column (column 2)
-  concepto: string;  // Concepto column (column 3)
-  movimiento: string; // Movimiento column (column 4)
-  importe: string;  // Importe column (column 5)
-  disponible: string; // Disponible column (column 7) - account balance after transaction
-}
+/**
+ * Number of data lines inspected when detecting the delimiter
+ */
+const DELIMITER_SNIFF_LINES = 20;
 
-export interface ParsedTransaction {
-  id: string;
-  date: string;
-  description: string;
-  descriptionOverride?: string;
-  amount: number;
-  category: string;
-  categoryOverride?: string;
-  account: string;
-  type: 'income' | 'expense';
-}
+// Progress messages; sent to stderr when --json keeps stdout for the report
+let log: (...args: unknown[]) => void = console.log;
 
 /**
  * Generate a hash-based ID from date, fecha, description, movimiento, amount, and disponible
@@ -43,101 +65,151 @@ function generateId(
 }
 
 /**
- * Convert date from DD/MM/YYYY to YYYY-MM-DD
+ * Generate the ID of the import batch for one file in one run
+ * e.g. batch_20260127T183000Z_3f2a1c
  */
-function convertDate(dateStr: string): string {
-  const [day, month, year] = dateStr.split('/');
-  if (!day || !month || !year) {
-    throw new Error(`Invalid date format: ${dateStr}`);
-  }
-  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+function generateBatchId(fileName: string, importedAt: string): string {
+  const timestamp = importedAt.replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  const fileHash = createHash('sha256').update(fileName).digest('hex').substring(0, 6);
+  return `batch_${timestamp}_${fileHash}`;
 }
 
 /**
- * Parse amount from Spanish format (comma decimal separator)
- * e.g., "-2,2" -> -2.2, "1231,65" -> 1231.65
+ * Parse CSV file and extract transaction data using the matching importer profile
+ * Rows that can't be read are reported with their line number, in `failures` when given
  */
-function parseAmount(amountStr: string): number {
-  // Replace comma with dot for decimal separator
-  const normalized = amountStr.replace(',', '.');
-  const amount = parseFloat(normalized);
-  if (isNaN(amount)) {
-    throw new Error(`Invalid amount format: ${amountStr}`);
-  }
-  return amount;
-}
-
-/**
- * Parse CSV file and extract transaction data
- */
-function parseCSV(filePath: string): CSVRow[] {
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
+function parseCSV(
+  filePath: string,
+  failures?: Omit<RowFailure, 'file'>[]
+): { profile: ImporterProfile; rows: CSVRow[]; encoding: CSVEncoding; delimiter: string } {
+  const { text, encoding } = decodeCSV(readFileSync(filePath));
+  const profile = resolveImporterProfile(filePath, text);
+  const lines = text.split(/\r\n|\r|\n/);
   
-  // Skip first 5 lines (header/metadata)
-  const dataLines = lines.slice(5);
+  // Skip the metadata block; the rest is tokenized as CSV
+  const dataStart = findDataStart(lines, profile);
+  const { account, currency } = readMetadata(lines, dataStart, profile);
+  const dataLines = lines.slice(dataStart);
+  const delimiter = profile.delimiter ?? detectDelimiter(dataLines.slice(0, DELIMITER_SNIFF_LINES));
+  
+  const reportRow = (line: number, description: string, error: string) => {
+    if (failures) {
+      failures.push({ line, description, error });
+    } else {
+      console.warn(`  Skipping line ${line}: ${error}`);
+    }
+  };
   
   const transactions: CSVRow[] = [];
+  let columnIndexes: Partial<Record<keyof CSVRow, number>> | null = profile.hasColumnHeader
+    ? null
+    : resolveColumnIndexes(profile, null);
+  let minColumns = 0;
   
-  for (const line of dataLines) {
-    // Skip empty lines
-    if (!line.trim()) continue;
+  for (const record of tokenizeCSV([dataLines.join('\n')], delimiter, dataStart + 1)) {
+    const { line: lineNumber, fields: columns } = record;
     
-    // Split by semicolon
-    const columns = line.split(';');
+    if (record.error) {
+      reportRow(lineNumber, columns.join(delimiter).substring(0, 60), record.error);
+      continue;
+    }
+    
+    // Skip whitespace-only lines
+    if (columns.every(column => !column.trim())) continue;
+    
+    // The first record holds the column names when the profile declares a header row
+    if (!columnIndexes) {
+      columnIndexes = resolveColumnIndexes(profile, columns);
+      continue;
+    }
+    if (!minColumns) {
+      const requiredIndexes = [columnIndexes.valorDate, columnIndexes.concepto, columnIndexes.importe, columnIndexes.cargo, columnIndexes.abono];
+      minColumns = Math.max(...requiredIndexes.filter((index): index is number => index !== undefined)) + 1;
+    }
     
-    // Check if we have enough columns
-    if (columns.length < 6) continue;
+    const indexes = columnIndexes;
+    const read = (field: keyof CSVRow): string => {
+      const index = indexes[field];
+      return index === undefined ? '' : columns[index]?.trim() || '';
+    };
     
-    // Extract relevant columns:
-    // Column 1: F.Valor (date)
-    // Column 2: Fecha (another date)
-    // Column 3: Concepto (description)
-    // Column 4: Movimiento (movement type/details)
-    // Column 5: Importe (amount)
-    // Column 7: Disponible (account balance after transaction)
-    const valorDate = columns[1]?.trim();
-    const fecha = columns[2]?.trim() || ''; // May be empty
-    const concepto = columns[3]?.trim();
-    const movimiento = columns[4]?.trim() || ''; // May be empty
-    const importe = columns[5]?.trim();
-    const disponible = columns[7]?.trim() || ''; // May be empty
+    // Report rows that don't fit the layout instead of silently dropping them
+    if (columns.length < minColumns) {
+      reportRow(lineNumber, columns.join(delimiter).substring(0, 60), `expected at least ${minColumns} columns, found ${columns.length}`);
+      continue;
+    }
     
-    // Skip if essential data is missing
-    if (!valorDate || !concepto || !importe) continue;
+    const valorDate = read('valorDate');
+    const concepto = read('concepto');
+    const importe = read('importe');
+    const cargo = read('cargo');
+    const abono = read('abono');
     
-    // Skip if importe is empty (some rows might have empty amounts)
-    if (importe === '') continue;
+    // Essential data is missing
+    if (!valorDate || !concepto || (!importe && !cargo && !abono)) {
+      reportRow(lineNumber, concepto || columns.join(delimiter).substring(0, 60), 'missing date, description or amount');
+      continue;
+    }
     
     transactions.push({
       valorDate,
-      fecha,
+      fecha: read('fecha'), // May be empty
       concepto,
-      movimiento,
+      movimiento: read('movimiento'), // May be empty
       importe,
-      disponible,
+      cargo: cargo || undefined,
+      abono: abono || undefined,
+      disponible: read('disponible'), // May be empty
+      account,
+      currency,
+      line: lineNumber,
     });
   }
   
-  return transactions;
+  return { profile, rows: transactions, encoding, delimiter };
+}
+
+/**
+ * Signed amount of a row: its amount column, or credit minus debit when the export
+ * splits them; exactly one of the debit and credit columns may be filled in
+ */
+function readRowAmount(row: CSVRow, format: LocaleFormat): number {
+  if (row.importe) {
+    return parseAmount(row.importe, format);
+  }
+  if (row.cargo && row.abono) {
+    throw new Error(`Both debit (${row.cargo}) and credit (${row.abono}) are filled in`);
+  }
+  if (row.cargo) {
+    return -Math.abs(parseAmount(row.cargo, format));
+  }
+  if (row.abono) {
+    return Math.abs(parseAmount(row.abono, format));
+  }
+  throw new Error('Missing amount');
 }
 
 /**
  * Transform CSV rows into Transaction objects
  */
-function transformToTransactions(csvRows: CSVRow[]): ParsedTransaction[] {
+function transformToTransactions(
+  csvRows: CSVRow[],
+  format: LocaleFormat,
+  failures?: Omit<RowFailure, 'file'>[],
+  batch?: Omit<NonNullable<ParsedTransaction['source']>, 'row'>
+): ParsedTransaction[] {
   const transactions: ParsedTransaction[] = [];
   
   for (const row of csvRows) {
     try {
       // Convert date
-      const date = convertDate(row.valorDate);
+      const date = convertDate(row.valorDate, format.dateFormat);
       
       // Convert fecha (may be empty, use valorDate as fallback)
-      const fecha = row.fecha ? convertDate(row.fecha) : date;
+      const fecha = row.fecha ? convertDate(row.fecha, format.dateFormat) : date;
       
       // Parse amount
-      const amount = parseAmount(row.importe);
+      const amount = readRowAmount(row, format);
       
       // Determine type based on amount sign
       const type: 'income' | 'expense' = amount < 0 ? 'expense' : 'income';
@@ -145,8 +217,12 @@ function transformToTransactions(csvRows: CSVRow[]): ParsedTransaction[] {
       // Use absolute value for amount field
       const absoluteAmount = Math.abs(amount);
       
-      // Generate ID using all distinguishing fields including disponible (account balance)
-      const id = generateId(date, fecha, row.concepto, row.movimiento, absoluteAmount, row.disponible);
+      // Prefer the bank's own stable reference; otherwise generate ID using all
+      // distinguishing fields including disponible (account balance)
+      const id = row.externalId || generateId(date, fecha, row.concepto, row.movimiento, absoluteAmount, row.disponible);
+      
+      // Parse balance after the transaction (may be empty)
+      const balance = row.disponible ? parseAmount(row.disponible, format) : undefined;
       
       transactions.push({
         id,
@@ -154,12 +230,22 @@ function transformToTransactions(csvRows: CSVRow[]): ParsedTransaction[] {
         description: row.concepto,
         amount: absoluteAmount,
         category: 'pendiente', // Will be categorized by rules
-        account: 'checking', // Generic account
+        account: row.account, // Registered account ID, see resolveAccounts
         type,
+        valueDate: date,
+        bookingDate: fecha,
+        movementType: row.movimiento || undefined,
+        balance,
+        source: batch ? { batchId: batch.batchId, file: batch.file, row: row.line, importedAt: batch.importedAt } : undefined,
       });
     } catch (error) {
-      // Log error but continue processing other rows
-      console.error(`Error processing row: ${row.concepto}`, error);
+      // Record the failure but continue processing other rows
+      const message = error instanceof Error ? error.message : String(error);
+      if (failures) {
+        failures.push({ line: row.line, description: row.concepto, error: message });
+      } else {
+        console.error(`Error processing row: ${row.concepto}`, error);
+      }
     }
   }
   
@@ -170,28 +256,12 @@ function transformToTransactions(csvRows: CSVRow[]): ParsedTransaction[] {
  * Parse existing transactions from JSON file
  */
 function parseExistingTransactions(filePath: string): ParsedTransaction[] {
-  if (!existsSync(filePath)) {
-    return [];
-  }
-
   try {
-    const content = readFileSync(filePath, 'utf-8');
-    const jsonData = JSON.parse(content) as any[];
-    
-    return jsonData.map(item => ({
-      id: item.id,
-      date: item.date,
-      description: item.description,
-      descriptionOverride: item.descriptionOverride,
-      amount: item.amount,
-      category: item.category,
-      categoryOverride: item.categoryOverride,
-      account: item.account,
-      type: item.type as 'income' | 'expense',
-    }));
+    return readTransactionsFile(filePath);
   } catch (error) {
-    console.warn(`Warning: Could not parse existing transactions file: ${error}`);
-    return [];
+    // Starting from an empty list would overwrite the file with only the new movements
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(EXIT_ERROR);
   }
 }
 
@@ -202,22 +272,38 @@ function mergeTransactions(
   existing: ParsedTransaction[],
   newTransactions: ParsedTransaction[]
 ): ParsedTransaction[] {
-  const existingIds = new Set(existing.map(t => t.id));
+  const existingById = new Map<string, number>();
   const merged = [...existing];
+  merged.forEach((t, index) => {
+    existingById.set(t.id, index);
+    // Duplicates merged into this transaction by an earlier import
+    t.mergedIds?.forEach(id => existingById.set(id, index));
+  });
   
   let addedCount = 0;
   for (const transaction of newTransactions) {
-    if (!existingIds.has(transaction.id)) {
+    const index = existingById.get(transaction.id);
+    if (index === undefined) {
       merged.push(transaction);
-      existingIds.add(transaction.id);
+      existingById.set(transaction.id, merged.length - 1);
       addedCount++;
+    } else {
+      // Backfill the bank fields of transactions imported before they were stored
+      const current = merged[index];
+      merged[index] = {
+        ...current,
+        balance: current.balance ?? transaction.balance,
+        valueDate: current.valueDate ?? transaction.valueDate,
+        bookingDate: current.bookingDate ?? transaction.bookingDate,
+        movementType: current.movementType ?? transaction.movementType,
+      };
     }
   }
   
   if (addedCount > 0) {
-    console.log(`Added ${addedCount} new transactions`);
+    log(`Added ${addedCount} new transactions`);
   } else {
-    console.log('No new transactions to add');
+    log('No new transactions to add');
   }
   
   // Sort by date (newest first) to match CSV order
@@ -235,45 +321,87 @@ function mergeTransactions(
 }
 
 /**
- * Generate JSON file for transactions
+ * Map the account reference of each row to a registered account ID
+ * Throws when a row has no account, names an unknown account or uses another currency
  */
-function generateJSON(transactions: ParsedTransaction[]): string {
-  // Convert to plain objects, preserving override fields
-  const jsonData = transactions.map(t => {
-    const obj: any = {
-      id: t.id,
-      date: t.date,
-      description: t.description,
-      amount: t.amount,
-      category: t.category,
-      account: t.account,
-      type: t.type,
-    };
+function resolveAccounts(rows: CSVRow[]): CSVRow[] {
+  return rows.map(row => {
+    if (!row.account) {
+      throw new Error('Export does not name its account; set metadata.account or defaultAccount on its importer profile');
+    }
     
-    // Only include categoryOverride if it's defined and not empty
-    if (t.categoryOverride && t.categoryOverride.trim()) {
-      obj.categoryOverride = t.categoryOverride;
+    const account = findAccountByReference(row.account);
+    if (!account) {
+      throw new Error(`Unknown account "${row.account}"; add it or an alias to ACCOUNTS in src/config/accounts.ts`);
     }
     
-    // Only include descriptionOverride if it's defined and not empty
-    if (t.descriptionOverride && t.descriptionOverride.trim()) {
-      obj.descriptionOverride = t.descriptionOverride;
+    if (row.currency && row.currency !== account.currency) {
+      throw new Error(`Account ${account.id} is in ${account.currency} but the export is in ${row.currency}`);
     }
     
-    return obj;
+    return { ...row, account: account.id };
   });
-  
-  return JSON.stringify(jsonData, null, 2);
 }
 
 /**
- * Get all CSV files in the movements directory
+ * Format of rows produced by the structured statement readers (Norma 43, OFX, camt):
+ * ISO dates and dot decimals
+ */
+const STATEMENT_FORMAT: LocaleFormat = {
+  dateFormat: 'YYYY-MM-DD',
+  decimalSeparator: '.',
+  thousandsSeparator: '',
+};
+
+/**
+ * Read any supported movement file and transform its rows into transactions
  */
-function getCSVFiles(movementsDir: string): string[] {
+function readMovementFile(
+  filePath: string,
+  failures?: Omit<RowFailure, 'file'>[],
+  batch?: Omit<NonNullable<ParsedTransaction['source']>, 'row'>
+): ParsedTransaction[] {
+  if (isNorma43File(filePath)) {
+    // Parse fixed-width Norma 43 statement
+    const n43Rows = parseNorma43(filePath);
+    log(`  Found ${n43Rows.length} movements in Norma 43 statement`);
+    return transformToTransactions(resolveAccounts(n43Rows), STATEMENT_FORMAT, failures, batch);
+  }
+
+  if (isOFXFile(filePath)) {
+    // Parse OFX/QFX statement
+    const ofxRows = parseOFX(filePath);
+    log(`  Found ${ofxRows.length} STMTTRN entries in OFX statement`);
+    return transformToTransactions(resolveAccounts(ofxRows), STATEMENT_FORMAT, failures, batch);
+  }
+
+  if (isCamtFile(filePath)) {
+    // Parse ISO 20022 camt.053/camt.052 XML statement
+    const camtRows = parseCamt(filePath);
+    log(`  Found ${camtRows.length} booked entries in camt statement`);
+    return transformToTransactions(resolveAccounts(camtRows), STATEMENT_FORMAT, failures, batch);
+  }
+
+  if (extname(filePath).toLowerCase() === '.xml') {
+    throw new Error('XML file is not a camt.052/camt.053 statement');
+  }
+
+  // Parse CSV with the importer profile matching this file
+  const { profile, rows: csvRows, encoding, delimiter } = parseCSV(filePath, failures);
+  log(`  Using importer profile: ${profile.id} (${encoding}, delimiter ${JSON.stringify(delimiter)})`);
+  log(`  Found ${csvRows.length} rows in CSV`);
+  return transformToTransactions(resolveAccounts(csvRows), getProfileFormat(profile), failures, batch);
+}
+
+/**
+ * Get all importable files (CSV, Norma 43, OFX/QFX and camt XML) in the movements directory
+ */
+function getMovementFiles(movementsDir: string): string[] {
+  const extensions = ['.csv', ...NORMA43_EXTENSIONS, ...OFX_EXTENSIONS, '.xml'];
   try {
     const files = readdirSync(movementsDir);
     return files
-      .filter(file => extname(file).toLowerCase() === '.csv')
+      .filter(file => extensions.includes(extname(file).toLowerCase()))
       .map(file => join(movementsDir, file))
       .sort(); // Sort for consistent processing order
   } catch (error) {
@@ -283,41 +411,100 @@ function getCSVFiles(movementsDir: string): string[] {
 }
 
 /**
- * Main function
+ * Main function; `fh import` runs it with its own arguments
  */
-function main() {
+export async function main(args: string[] = process.argv.slice(2)) {
+  const dryRun = args.includes('--dry-run') || args.includes('-n');
+  const jsonOutput = args.includes('--json');
+  const classify = args.includes('--classify');
+  if (args.includes('--quiet') || args.includes('-q')) {
+    log = () => {};
+  } else if (jsonOutput) {
+    log = console.error;
+  }
+  
+  const duplicatesIndex = args.indexOf('--duplicates');
+  let duplicateMode: DuplicateMode = 'report';
+  if (duplicatesIndex !== -1) {
+    const mode = args[duplicatesIndex + 1] as DuplicateMode;
+    if (!DUPLICATE_MODES.includes(mode)) {
+      console.error(`Usage: parse-transactions --duplicates <${DUPLICATE_MODES.join('|')}>`);
+      process.exit(EXIT_ERROR);
+    }
+    duplicateMode = mode;
+  }
+  if (dryRun && duplicateMode === 'interactive') {
+    // Nothing would be written, so only report what was found
+    duplicateMode = 'report';
+  }
+  
+  // Fail before parsing anything if the rules or merchants file is invalid
+  let merchants: MerchantsFile;
+  try {
+    getCategorizationRules();
+    merchants = readMerchantsFile();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(EXIT_ERROR);
+  }
+  
   const movementsDir = join(process.cwd(), 'src', 'movements');
-  const jsonOutputPath = join(process.cwd(), 'src', 'config', 'transactions.json');
+  const jsonOutputPath = getTransactionsPath();
   const tsOutputPath = join(process.cwd(), 'src', 'config', 'transactions.ts');
   
   // Read existing transactions from JSON
   const existingTransactions = parseExistingTransactions(jsonOutputPath);
-  console.log(`Found ${existingTransactions.length} existing transactions`);
+  log(`Found ${existingTransactions.length} existing transactions`);
   
-  // Get all CSV files
-  const csvFiles = getCSVFiles(movementsDir);
-  console.log(`Found ${csvFiles.length} CSV file(s) in movements folder:`);
-  csvFiles.forEach(file => console.log(`  - ${file}`));
+  // Get all movement files
+  const movementFiles = getMovementFiles(movementsDir);
+  log(`Found ${movementFiles.length} movement file(s) in movements folder:`);
+  movementFiles.forEach(file => log(`  - ${file}`));
   
-  if (csvFiles.length === 0) {
-    console.error('No CSV files found in movements folder');
+  if (movementFiles.length === 0) {
+    console.error('No movement files found in movements folder');
     return;
   }
   
   // Parse all CSV files and collect all transactions
   const allCSVTransactions: ParsedTransaction[] = [];
   const seenIds = new Set<string>();
+  const existingIds = new Set(existingTransactions.flatMap(t => [t.id, ...(t.mergedIds || [])]));
+  const exportedIds = new Map<string, Set<string>>();
+  const fileDiffs: FileDiff[] = [];
+  const failedRows: RowFailure[] = [];
+  const importedAt = new Date().toISOString();
   
-  for (const csvPath of csvFiles) {
-    console.log(`\nParsing: ${csvPath}`);
+  for (const filePath of movementFiles) {
+    log(`\nParsing: ${filePath}`);
+    const fileName = basename(filePath);
     
-    // Parse CSV
-    const csvRows = parseCSV(csvPath);
-    console.log(`  Found ${csvRows.length} rows in CSV`);
+    let transactions: ParsedTransaction[];
+    const failures: Omit<RowFailure, 'file'>[] = [];
+    const batch = { batchId: generateBatchId(fileName, importedAt), file: fileName, importedAt };
+    try {
+      transactions = readMovementFile(filePath, failures, batch);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`  Skipping ${fileName}: ${message}`);
+      fileDiffs.push({ file: fileName, status: 'skipped', error: message, parsedCount: 0, newTransactions: [] });
+      continue;
+    }
+    log(`  Successfully parsed ${transactions.length} transactions`);
+    failures.forEach(failure => {
+      console.error(`  Error processing ${failure.line ? `line ${failure.line}` : 'row'} (${failure.description}): ${failure.error}`);
+      failedRows.push({ file: fileName, ...failure });
+    });
     
-    // Transform to Transaction objects
-    const transactions = transformToTransactions(csvRows);
-    console.log(`  Successfully parsed ${transactions.length} transactions`);
+    const fileDiff: FileDiff = {
+      file: fileName,
+      batchId: batch.batchId,
+      status: 'parsed',
+      parsedCount: transactions.length,
+      newTransactions: [],
+    };
+    fileDiffs.push(fileDiff);
+    exportedIds.set(fileName, new Set(transactions.map(t => t.id)));
     
     // Add transactions, avoiding duplicates within CSVs
     let addedFromFile = 0;
@@ -326,55 +513,184 @@ function main() {
         allCSVTransactions.push(transaction);
         seenIds.add(transaction.id);
         addedFromFile++;
+        if (!existingIds.has(transaction.id)) {
+          fileDiff.newTransactions.push(toDiffTransaction(transaction));
+        }
       }
     }
     
     if (addedFromFile < transactions.length) {
-      console.log(`  Added ${addedFromFile} new transactions (${transactions.length - addedFromFile} duplicates skipped)`);
+      log(`  Added ${addedFromFile} new transactions (${transactions.length - addedFromFile} duplicates skipped)`);
     } else {
-      console.log(`  Added ${addedFromFile} transactions`);
+      log(`  Added ${addedFromFile} transactions`);
     }
   }
   
-  console.log(`\nTotal unique transactions from all CSVs: ${allCSVTransactions.length}`);
+  log(`\nTotal unique transactions from all CSVs: ${allCSVTransactions.length}`);
+  
+  // Look for the same movements exported twice under different IDs (overlapping exports)
+  log('\nLooking for duplicates from overlapping exports...');
+  const incomingTransactions = allCSVTransactions.filter(t => !existingIds.has(t.id));
+  const candidates = findDuplicateCandidates(incomingTransactions, existingTransactions, exportedIds);
+  const resolutions = await resolveDuplicateCandidates(candidates, duplicateMode);
+  const merges = candidates.filter(c => resolutions.get(c.incoming.id) === 'merge');
+  const heldBack = candidates.filter(c => resolutions.get(c.incoming.id) === 'hold');
+  const droppedIds = new Set([...merges, ...heldBack].map(c => c.incoming.id));
+  if (candidates.length === 0) {
+    log('  ✓ No likely duplicates found');
+  } else {
+    log(`  Found ${candidates.length} likely duplicate(s): ${merges.length} merged, ${heldBack.length} held back, ${candidates.length - droppedIds.size} kept`);
+    if (heldBack.length > 0) {
+      console.warn(`  ⚠️  ${heldBack.length} transaction(s) were not imported; re-run with --duplicates <merge|keep|interactive> to resolve them`);
+    }
+  }
+  fileDiffs.forEach(file => {
+    file.newTransactions = file.newTransactions.filter(t => !droppedIds.has(t.id));
+  });
+  const resolvedExisting = applyDuplicateMerges(existingTransactions, merges);
+  const resolvedIncoming = applyDuplicateMerges(allCSVTransactions.filter(t => !droppedIds.has(t.id)), merges);
+  
+  // Derive merchants before the rules run, so rules can target them
+  log('\nNormalizing merchant names...');
+  const normalizedExisting = applyMerchantNormalization(resolvedExisting, merchants);
+  const normalizedIncoming = applyMerchantNormalization(resolvedIncoming, merchants);
+  log(`  ${new Set(normalizedIncoming.concat(normalizedExisting).map(t => t.merchant).filter(Boolean)).size} distinct merchants`);
   
   // Apply categorization rules to new transactions
-  console.log('\nApplying categorization rules to new transactions...');
-  const categorizedNewTransactions = applyRulesToTransactions(allCSVTransactions, false);
+  log('\nApplying categorization rules to new transactions...');
+  const categorizedNewTransactions = applyRulesToTransactions(normalizedIncoming, false);
   
   // Merge with existing transactions
-  const allTransactions = mergeTransactions(existingTransactions, categorizedNewTransactions);
-  console.log(`Total transactions after merge: ${allTransactions.length}`);
+  const allTransactions = mergeTransactions(normalizedExisting, categorizedNewTransactions);
+  log(`Total transactions after merge: ${allTransactions.length}`);
   
   // Apply categorization rules to all transactions (preserving categoryOverride only)
-  console.log('\nApplying categorization rules to all transactions...');
-  const categorizedTransactions = applyRulesToTransactions(allTransactions, false);
+  log('\nApplying categorization rules to all transactions...');
+  let categorizedTransactions = applyRulesToTransactions(allTransactions, false);
+  
+  // Optional fallback stage: let the classifier categorize what the rules left pending
+  if (classify) {
+    log('\nSuggesting categories for pending transactions...');
+    const pendingBefore = categorizedTransactions.filter(t => t.category === 'pendiente').length;
+    categorizedTransactions = applyClassifierToPending(categorizedTransactions, trainClassifier(categorizedTransactions));
+    const pendingAfter = categorizedTransactions.filter(t => t.category === 'pendiente').length;
+    log(`  Classifier categorized ${pendingBefore - pendingAfter} of ${pendingBefore} pending (confidence ≥ ${MIN_CONFIDENCE * 100}%)`);
+  }
   
   // Count categorized transactions
   const categorizedCount = categorizedTransactions.filter(
     t => t.category !== 'other' && t.category !== 'pendiente'
   ).length;
   const pendienteCount = categorizedTransactions.filter(t => t.category === 'pendiente').length;
-  console.log(`  Categorized: ${categorizedCount}, Pending: ${pendienteCount}`);
+  log(`  Categorized: ${categorizedCount}, Pending: ${pendienteCount}`);
+  
+  // Check that reported balances chain without gaps, per account
+  log('\nChecking balance continuity...');
+  const openingBalances = Object.fromEntries(ACCOUNTS.map(a => [a.id, a.openingBalance]));
+  const gaps = checkBalanceContinuity(categorizedTransactions, openingBalances);
+  if (gaps.length === 0) {
+    log('  ✓ Balances are continuous for every account');
+  } else {
+    console.warn(`  ⚠️  Found ${gaps.length} balance gap(s) - the exports may be missing or duplicating rows:`);
+    gaps.forEach(gap => {
+      const after = gap.after ? `after ${gap.after.date} [${gap.after.id}]` : 'at opening balance';
+      console.warn(
+        `    ${gap.account}: ${after} -> ${gap.transaction.date} [${gap.transaction.id}] ` +
+        `expects previous balance ${gap.expectedPreviousBalance.toFixed(2)}, found ${gap.actualPreviousBalance.toFixed(2)} ` +
+        `(${gap.difference > 0 ? '+' : ''}${gap.difference.toFixed(2)} unaccounted for)`
+      );
+    });
+  }
+  
+  // Fill in the categories new transactions end up with after the final rules pass
+  const finalCategories = new Map(categorizedTransactions.map(t => [t.id, t.categoryOverride || t.category]));
+  fileDiffs.forEach(file => file.newTransactions.forEach(t => {
+    t.category = finalCategories.get(t.id) ?? t.category;
+  }));
   
-  // Generate JSON
-  const jsonContent = generateJSON(categorizedTransactions);
+  const categoryChanges = findCategoryChanges(existingTransactions, categorizedTransactions);
+  const newCount = fileDiffs.reduce((sum, file) => sum + file.newTransactions.length, 0);
+  const skippedFiles = fileDiffs.filter(file => file.status === 'skipped');
+  const diff: ImportDiff = {
+    dryRun,
+    files: fileDiffs,
+    categoryChanges,
+    failedRows,
+    duplicates: candidates.map(candidate => ({
+      incoming: toDiffTransaction(candidate.incoming),
+      match: toDiffTransaction(candidate.match),
+      similarity: Math.round(candidate.similarity * 100) / 100,
+      daysApart: candidate.daysApart,
+      resolution: resolutions.get(candidate.incoming.id) ?? 'hold',
+    })),
+    balanceGaps: gaps.map(({ after, transaction, ...gap }) => ({
+      ...gap,
+      afterId: after ? after.id : null,
+      transactionId: transaction.id,
+    })),
+    totals: {
+      existing: existingTransactions.length,
+      new: newCount,
+      categoryChanges: categoryChanges.length,
+      failedRows: failedRows.length,
+      skippedFiles: skippedFiles.length,
+      duplicates: candidates.length,
+      afterImport: categorizedTransactions.length,
+    },
+  };
+  
+  if (jsonOutput) {
+    process.stdout.write(JSON.stringify(diff, null, 2) + '\n');
+  } else if (dryRun) {
+    printImportDiff(diff);
+  }
+  
+  // Values that can't be parsed unambiguously fail the run, even though the other rows are imported
+  if (failedRows.length > 0) {
+    console.error(`\n❌ ${failedRows.length} row(s) could not be parsed; fix the export or its importer profile and re-run`);
+    process.exitCode = EXIT_FINDINGS;
+  }
+  // So do files that couldn't be read at all
+  if (skippedFiles.length > 0) {
+    console.error(`\n❌ ${skippedFiles.length} file(s) could not be read: ${skippedFiles.map(file => file.file).join(', ')}`);
+    process.exitCode = EXIT_FINDINGS;
+  }
+  // So do held-back duplicate candidates: those rows stay out until they are resolved
+  if (heldBack.length > 0) {
+    process.exitCode = EXIT_FINDINGS;
+  }
+  
+  if (dryRun) {
+    log('\nDry run: transactions.json was not modified');
+    return;
+  }
   
   // Write JSON file
-  writeFileSync(jsonOutputPath, jsonContent, 'utf-8');
-  console.log('\nUpdated transactions.json file:', jsonOutputPath);
+  writeTransactionsFile(jsonOutputPath, categorizedTransactions);
+  log('\nUpdated transactions.json file:', jsonOutputPath);
+  
+  // Report the import batches this run created
+  fileDiffs
+    .filter(file => file.newTransactions.length > 0)
+    .forEach(file => log(`  Import batch ${file.batchId}: ${file.newTransactions.length} transactions from ${file.file}`));
   
   // Verify unique IDs
   const ids = new Set(categorizedTransactions.map(t => t.id));
   if (ids.size !== categorizedTransactions.length) {
     console.warn(`Warning: Found ${categorizedTransactions.length - ids.size} duplicate IDs`);
   } else {
-    console.log('✓ All transaction IDs are unique');
+    log('✓ All transaction IDs are unique');
   }
 }
 
 // Run if executed directly
-main();
+if (isMainModule(import.meta.url)) {
+  main().catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = EXIT_ERROR;
+  });
+}
 
-export { parseCSV, transformToTransactions, generateId, convertDate, parseAmount, CSVRow };
+export { parseCSV, transformToTransactions, generateId, convertDate, parseAmount };
+export type { CSVRow };
 
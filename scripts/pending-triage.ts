@@ -0,0 +1,345 @@
+import { createInterface, emitKeypressEvents } from 'readline';
+import { CATEGORIES } from '../src/config/categories';
+import {
+  ParsedTransaction,
+  RuleDefinition,
+  categorizeTransactionWithMatch,
+  compileRule,
+  readRulesFile,
+  serializeRulesFile,
+  validateRulesFile,
+  resetCategorizationRules,
+  getRulesPath,
+} from './categorization-rules';
+import { trainClassifier, suggestCategory } from './category-classifier';
+import { serializeTransactionsFile } from './transactions-file';
+import { writeFilesAtomic } from './atomic-write';
+
+/**
+ * Keys for picking a category; d, s, u and q are taken by commands
+ */
+const CATEGORY_KEYS = '1234567890abcefghijklmnoprtvwxyz';
+
+/**
+ * Number of transactions with the same description given the same category before
+ * offering to turn the choice into a rule
+ */
+const REPEAT_THRESHOLD = 2;
+
+interface Key {
+  sequence?: string;
+  name?: string;
+  ctrl?: boolean;
+}
+
+/**
+ * One step of the session, with what it changed so it can be undone
+ */
+interface TriageAction {
+  position: number; // Queue position the action was taken at
+  before: ParsedTransaction[]; // The changed transactions as they were
+  rule?: RuleDefinition; // Rule created by the action
+}
+
+/**
+ * Read single key presses from the terminal in raw mode, queueing keys that arrive
+ * before they are asked for, and whole lines when text has to be typed
+ */
+function createKeyReader() {
+  const queued: Key[] = [];
+  let waiting: ((key: Key) => void) | null = null;
+  let readingLine = false;
+
+  const onKeypress = (_str: string | undefined, key: Key | undefined) => {
+    if (readingLine) return;
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(key ?? {});
+    } else {
+      queued.push(key ?? {});
+    }
+  };
+
+  emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.on('keypress', onKeypress);
+  process.stdin.resume();
+
+  return {
+    readKey(): Promise<Key> {
+      const key = queued.shift();
+      return key ? Promise.resolve(key) : new Promise(resolve => (waiting = resolve));
+    },
+
+    /** Read a line of text, starting from an editable default */
+    readLine(prompt: string, initial: string = ''): Promise<string> {
+      readingLine = true;
+      queued.length = 0;
+      return new Promise(resolve => {
+        const rl = createInterface({ input: process.stdin, output: process.stdout });
+        rl.question(prompt, answer => {
+          rl.close();
+          readingLine = false;
+          process.stdin.setRawMode(true);
+          process.stdin.resume();
+          resolve(answer.trim());
+        });
+        rl.write(initial);
+      });
+    },
+
+    close() {
+      process.stdin.off('keypress', onKeypress);
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+    },
+  };
+}
+
+function formatTransaction(t: ParsedTransaction): string {
+  const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+  const description = t.descriptionOverride ? `${t.descriptionOverride}  (was "${t.description}")` : t.description;
+  return `[${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${description}`;
+}
+
+/**
+ * Whether a transaction still needs a category: no rule matched and it has no override
+ */
+export function isPending(t: ParsedTransaction): boolean {
+  return t.category === 'pendiente' && !(t.categoryOverride && t.categoryOverride.trim());
+}
+
+function normalizeDescription(description: string): string {
+  return description.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Keys for the categories a transaction type can take: not archived, and applying to the type
+ */
+function getCategoryKeys(type: ParsedTransaction['type']): Map<string, string> {
+  const categoryIds = CATEGORIES
+    .filter(c => !c.archived && c.id !== 'pendiente' && (!c.types || c.types.includes(type)))
+    .map(c => c.id);
+  return new Map(categoryIds.slice(0, CATEGORY_KEYS.length).map((id, index) => [CATEGORY_KEYS[index], id]));
+}
+
+function printMenu(type: ParsedTransaction['type'], categoryKeys: Map<string, string>) {
+  const entries = Array.from(categoryKeys.entries()).map(([key, id]) => {
+    const category = CATEGORIES.find(c => c.id === id);
+    return `${key} ${category?.icon ?? ''} ${id}`;
+  });
+  console.log('─'.repeat(100));
+  console.log(`  Categories for ${type} transactions`);
+  for (let i = 0; i < entries.length; i += 5) {
+    console.log(`  ${entries.slice(i, i + 5).map(entry => entry.padEnd(19)).join('')}`);
+  }
+  console.log('  Enter accept suggestion · d edit description · s skip · u undo · ? help · q save and quit · Ctrl+C quit without saving');
+  console.log('─'.repeat(100));
+}
+
+/**
+ * Walk the pending transactions one by one, newest first, and let the user categorize
+ * them with single keys. The menu only lists the categories that apply to the type of the
+ * transaction. Changes are written when the session ends, together with the rules created
+ * along the way, so either both files are updated or neither is
+ */
+export async function runTriage(transactionsPath: string, transactions: ParsedTransaction[]): Promise<void> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    console.error('Triage needs an interactive terminal');
+    process.exit(1);
+  }
+
+  const categoryKeysByType = {
+    income: getCategoryKeys('income'),
+    expense: getCategoryKeys('expense'),
+  };
+
+  const indexById = new Map(transactions.map((t, index) => [t.id, index]));
+  const queue = transactions
+    .filter(isPending)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map(t => t.id);
+
+  if (queue.length === 0) {
+    console.log('\n✅ No pending transactions!');
+    return;
+  }
+
+  const history: TriageAction[] = [];
+  const newRules: RuleDefinition[] = [];
+  const declinedRules = new Set<string>();
+  const get = (id: string) => transactions[indexById.get(id)!];
+  const set = (t: ParsedTransaction) => {
+    transactions[indexById.get(t.id)!] = t;
+  };
+
+  const keys = createKeyReader();
+  console.log(`\n🗂️  Pending triage: ${queue.length} transaction(s)`);
+
+  let position = 0;
+  let menuType: ParsedTransaction['type'] | null = null;
+  let saveOnExit = true;
+  while (position < queue.length) {
+    const t = get(queue[position]);
+    // Categorized meanwhile by a rule created in this session
+    if (!isPending(t)) {
+      position++;
+      continue;
+    }
+
+    // Keys change with the type, so show the menu again whenever it does
+    const categoryKeys = categoryKeysByType[t.type];
+    if (menuType !== t.type) {
+      printMenu(t.type, categoryKeys);
+      menuType = t.type;
+    }
+
+    const ruleSuggestion = categorizeTransactionWithMatch(t);
+    const suggestion = suggestCategory(trainClassifier(transactions), t);
+    const learned = suggestion && Array.from(categoryKeys.values()).includes(suggestion.category) ? suggestion : null;
+    const remaining = queue.slice(position).filter(id => isPending(get(id))).length;
+
+    console.log(`\n(${remaining} left) ${formatTransaction(t)}`);
+    if (ruleSuggestion.match) {
+      console.log(`   📐 Rule ${ruleSuggestion.match.rule} → ${ruleSuggestion.category}`);
+    }
+    if (learned) {
+      console.log(`   💡 Learned ${learned.category} (${(learned.confidence * 100).toFixed(0)}%)`);
+    }
+    process.stdout.write('> ');
+
+    const key = await keys.readKey();
+    if (key.ctrl && key.name === 'c') {
+      console.log('^C');
+      saveOnExit = false;
+      break;
+    }
+
+    const pressed = key.name === 'return' || key.name === 'enter' ? 'enter' : key.sequence ?? '';
+    console.log(pressed === 'enter' ? '⏎' : pressed);
+
+    if (pressed === 'q') {
+      break;
+    }
+    if (pressed === '?') {
+      printMenu(t.type, categoryKeys);
+      continue;
+    }
+    if (pressed === 's') {
+      position++;
+      continue;
+    }
+    if (pressed === 'u') {
+      const action = history.pop();
+      if (!action) {
+        console.log('   Nothing to undo');
+        continue;
+      }
+      action.before.forEach(set);
+      if (action.rule) {
+        newRules.splice(newRules.indexOf(action.rule), 1);
+      }
+      position = action.position;
+      console.log(`   ↩️  Undone${action.rule ? `, including rule "${action.rule.name}"` : ''}`);
+      continue;
+    }
+    if (pressed === 'd') {
+      const description = await keys.readLine('   Description (empty to clear): ', t.descriptionOverride || t.description);
+      history.push({ position, before: [t] });
+      set({ ...t, descriptionOverride: description && description !== t.description ? description : undefined });
+      continue;
+    }
+
+    // Pick a category: accepting a rule suggestion lets the rule decide as on import,
+    // anything else becomes a manual override
+    let updated: ParsedTransaction;
+    if (pressed === 'enter' && ruleSuggestion.match) {
+      updated = { ...t, category: ruleSuggestion.category, categorizedBy: ruleSuggestion.match };
+    } else {
+      const category = pressed === 'enter' ? learned?.category : categoryKeys.get(pressed);
+      if (!category) {
+        console.log(`   Unknown key${pressed === 'enter' ? ': no suggestion to accept' : ''}, press ? for help`);
+        continue;
+      }
+      updated = { ...t, categoryOverride: category };
+    }
+    history.push({ position, before: [t] });
+    set(updated);
+    position++;
+
+    const category = updated.categoryOverride;
+    if (!category) continue;
+
+    // Offer to turn a repeated choice into a rule
+    const description = normalizeDescription(t.description);
+    const offerKey = `${description}→${category}`;
+    const repeats = transactions.filter(
+      other => normalizeDescription(other.description) === description && other.categoryOverride === category
+    ).length;
+    if (repeats < REPEAT_THRESHOLD || declinedRules.has(offerKey)) continue;
+
+    process.stdout.write(`   🔁 ${repeats} "${t.description}" transactions set to ${category}. Create a rule? [y/N] `);
+    const answer = await keys.readKey();
+    console.log(answer.sequence === 'y' ? 'y' : 'n');
+    if (answer.sequence !== 'y') {
+      declinedRules.add(offerKey);
+      continue;
+    }
+
+    const keyword = await keys.readLine('   Keyword: ', description);
+    if (!keyword) {
+      declinedRules.add(offerKey);
+      continue;
+    }
+    const existingNames = new Set([...readRulesFile(getRulesPath()).rules, ...newRules].map(r => r.name));
+    let name = t.description.trim();
+    for (let n = 2; existingNames.has(name); n++) {
+      name = `${t.description.trim()} (${n})`;
+    }
+    const rule: RuleDefinition = { name, category, keywords: [keyword], type: t.type };
+    const rulesFile = readRulesFile(getRulesPath());
+    const { problems } = validateRulesFile({ ...rulesFile, rules: [...rulesFile.rules, ...newRules, rule] });
+    if (problems.length > 0) {
+      console.log(`   ⚠️  Rule not created:\n${problems.map(p => `      - ${p}`).join('\n')}`);
+      declinedRules.add(offerKey);
+      continue;
+    }
+
+    // Let the new rule categorize the other pending transactions it matches right away
+    const compiled = compileRule(rule);
+    const matched = transactions.filter(other => isPending(other) && compiled.match(other));
+    const action = history[history.length - 1];
+    action.before.push(...matched);
+    action.rule = rule;
+    newRules.push(rule);
+    matched.forEach(other => set({ ...other, category, categorizedBy: { rule: name, keyword } }));
+    console.log(`   📐 Rule "${name}" created; it categorized ${matched.length} more pending transaction(s)`);
+  }
+
+  keys.close();
+
+  const changed = history.reduce((sum, action) => sum + action.before.length, 0);
+  if (!saveOnExit) {
+    console.log(`\nDiscarded ${changed} change(s) and ${newRules.length} new rule(s)`);
+    return;
+  }
+  if (changed === 0) {
+    console.log('\nNothing changed');
+    return;
+  }
+
+  // Serialize both files first, so an invalid rule can't lose the session's changes
+  const files = [{ path: transactionsPath, content: serializeTransactionsFile(transactionsPath, transactions) }];
+  const rulesPath = getRulesPath();
+  if (newRules.length > 0) {
+    const rulesFile = readRulesFile(rulesPath);
+    files.push({ path: rulesPath, content: serializeRulesFile(rulesPath, { ...rulesFile, rules: [...rulesFile.rules, ...newRules] }) });
+  }
+  writeFilesAtomic(files);
+  resetCategorizationRules();
+  if (newRules.length > 0) {
+    console.log(`\n📐 Added ${newRules.length} rule(s) to ${rulesPath}`);
+  }
+  console.log(`✅ Saved ${changed} change(s) to ${transactionsPath}`);
+}
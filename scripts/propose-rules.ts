@@ -0,0 +1,247 @@
+import { createInterface } from 'readline';
+import {
+  CategorizationRule,
+  ParsedTransaction,
+  RuleDefinition,
+  compileRule,
+  readRulesFile,
+  writeRulesFile,
+  getRulesPath,
+} from './categorization-rules';
+import { tokenizeDescription } from './category-classifier';
+import { readTransactionsFile, getTransactionsPath } from './transactions-file';
+
+/**
+ * Default number of overrides of the same description to the same category needed
+ * for a proposal
+ */
+const DEFAULT_MIN_OVERRIDES = 3;
+
+/**
+ * Shortest keyword worth proposing
+ */
+const MIN_KEYWORD_LENGTH = 3;
+
+/**
+ * A candidate rule learned from repeated overrides, with what appending it would change
+ */
+interface RuleProposal {
+  definition: RuleDefinition;
+  overrides: ParsedTransaction[]; // The overridden transactions it is learned from
+  newlyMatched: ParsedTransaction[]; // Pending transactions it would categorize
+  conflicts: Map<string, number>; // Existing rules that claim its matches first with another category
+  contradicted: ParsedTransaction[]; // Matches manually overridden to another category
+}
+
+function getEffectiveCategory(t: ParsedTransaction): string {
+  return t.categoryOverride && t.categoryOverride.trim() ? t.categoryOverride : t.category;
+}
+
+function formatTransaction(t: ParsedTransaction): string {
+  const amountStr = t.type === 'income' ? `+${t.amount.toFixed(2)}` : `-${t.amount.toFixed(2)}`;
+  return `[${t.date}] [${t.id}] ${amountStr.padStart(10)} €  ${t.descriptionOverride || t.description}`;
+}
+
+/**
+ * Longest text every description contains (case-insensitive), trimmed to whole characters
+ * a keyword can start and end with
+ */
+function findCommonKeyword(descriptions: string[]): string | null {
+  const lowered = descriptions.map(d => d.trim().toLowerCase());
+  const shortest = lowered.reduce((a, b) => (b.length < a.length ? b : a));
+
+  for (let length = shortest.length; length >= MIN_KEYWORD_LENGTH; length--) {
+    for (let start = 0; start + length <= shortest.length; start++) {
+      const candidate = shortest.slice(start, start + length).replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+      if (candidate.length >= MIN_KEYWORD_LENGTH && lowered.every(d => d.includes(candidate))) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Group overrides by description words and category, and turn every group with at least
+ * `minOverrides` transactions into a keyword rule
+ */
+function proposeRules(
+  transactions: ParsedTransaction[],
+  definitions: RuleDefinition[],
+  minOverrides: number
+): RuleProposal[] {
+  const rules = definitions.map(compileRule);
+  const claimingRule = (t: ParsedTransaction): CategorizationRule | undefined => rules.find(rule => rule.match(t));
+
+  const groups = new Map<string, ParsedTransaction[]>();
+  transactions
+    .filter(t => t.categoryOverride && t.categoryOverride.trim())
+    .forEach(t => {
+      const tokens = tokenizeDescription(t.description);
+      if (tokens.length === 0) return;
+      const key = `${tokens.join(' ')}→${t.categoryOverride}`;
+      groups.set(key, [...(groups.get(key) || []), t]);
+    });
+
+  const usedNames = new Set(definitions.map(d => d.name));
+  const proposals: RuleProposal[] = [];
+
+  groups.forEach(overrides => {
+    if (overrides.length < minOverrides) return;
+    const category = overrides[0].categoryOverride!;
+
+    // Already handled by the current rules
+    if (overrides.every(t => claimingRule(t)?.category === category)) return;
+
+    const keyword = findCommonKeyword(overrides.map(t => t.description));
+    if (!keyword) return;
+
+    // Name it after its most frequent description
+    const counts = new Map<string, number>();
+    overrides.forEach(t => counts.set(t.description.trim(), (counts.get(t.description.trim()) || 0) + 1));
+    const baseName = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    let name = baseName;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${baseName} (${n})`;
+    }
+    usedNames.add(name);
+
+    const definition: RuleDefinition = { name, category, keywords: [keyword] };
+    const types = new Set(overrides.map(t => t.type));
+    if (types.size === 1) {
+      definition.type = overrides[0].type;
+    }
+
+    const proposed = compileRule(definition);
+    const proposal: RuleProposal = { definition, overrides, newlyMatched: [], conflicts: new Map(), contradicted: [] };
+    transactions.filter(t => proposed.match(t)).forEach(t => {
+      const existing = claimingRule(t);
+      if (existing && existing.category !== category) {
+        proposal.conflicts.set(existing.name, (proposal.conflicts.get(existing.name) || 0) + 1);
+      }
+      const override = t.categoryOverride?.trim();
+      if (override && override !== category) {
+        proposal.contradicted.push(t);
+      } else if (!override && !existing && t.category === 'pendiente') {
+        proposal.newlyMatched.push(t);
+      }
+    });
+    proposals.push(proposal);
+  });
+
+  return proposals.sort((a, b) => b.overrides.length - a.overrides.length);
+}
+
+function printProposal(proposal: RuleProposal, index: number, total: number, listDetails: boolean) {
+  const { definition } = proposal;
+  console.log(`\n${index + 1}/${total}. "${definition.name}" → ${definition.category}`);
+  console.log(`    keyword "${definition.keywords![0]}"${definition.type ? `, type ${definition.type}` : ''}`);
+  console.log(`    Learned from ${proposal.overrides.length} override(s)`);
+  console.log(`    Would categorize ${proposal.newlyMatched.length} pending transaction(s)`);
+  if (listDetails) {
+    proposal.newlyMatched.forEach(t => console.log(`      ${formatTransaction(t)}`));
+  }
+  proposal.conflicts.forEach((count, rule) => {
+    console.log(`    ⚠️  ${count} match(es) claimed first by existing rule "${rule}", which wins`);
+  });
+  if (proposal.contradicted.length > 0) {
+    const categories = Array.from(new Set(proposal.contradicted.map(getEffectiveCategory))).join(', ');
+    console.log(`    ⚠️  ${proposal.contradicted.length} match(es) manually overridden to ${categories}`);
+    if (listDetails) {
+      proposal.contradicted.forEach(t => console.log(`      ${formatTransaction(t)}  → ${t.categoryOverride}`));
+    }
+  }
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const acceptAll = args.includes('--yes') || args.includes('-y');
+  const listDetails = args.includes('--list') || args.includes('-l');
+  const minIndex = args.indexOf('--min');
+  const minOverrides = minIndex !== -1 ? Number(args[minIndex + 1]) : DEFAULT_MIN_OVERRIDES;
+  if (!Number.isInteger(minOverrides) || minOverrides < 2) {
+    console.error('--min must be a whole number of at least 2');
+    process.exit(1);
+  }
+
+  console.log('Loading rules and transactions...\n');
+
+  const rulesPath = getRulesPath();
+  let definitions: RuleDefinition[];
+  let transactions: ParsedTransaction[];
+  try {
+    definitions = readRulesFile(rulesPath).rules;
+    transactions = readTransactionsFile(getTransactionsPath());
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const proposals = proposeRules(transactions, definitions, minOverrides);
+
+  console.log('🧠 Rule Proposals from Manual Overrides');
+  console.log('═'.repeat(60));
+  console.log(`Manual overrides:          ${transactions.filter(t => t.categoryOverride && t.categoryOverride.trim()).length}`);
+  console.log(`Minimum repeated overrides: ${minOverrides}`);
+  console.log(`Proposed rules:            ${proposals.length}`);
+  console.log('═'.repeat(60));
+
+  if (proposals.length === 0) {
+    console.log('\n✅ No repeated overrides the rules don\'t already cover');
+    return;
+  }
+
+  const accepted: RuleDefinition[] = [];
+  // Read answers through the line iterator so piped answers are buffered, not dropped
+  const rl = dryRun || acceptAll ? null : createInterface({ input: process.stdin });
+  const answers = rl?.[Symbol.asyncIterator]();
+  try {
+    for (const [index, proposal] of proposals.entries()) {
+      printProposal(proposal, index, proposals.length, listDetails);
+      if (dryRun) continue;
+      if (acceptAll) {
+        accepted.push(proposal.definition);
+        continue;
+      }
+
+      let answer = '';
+      while (!['y', 'n'].includes(answer)) {
+        process.stdout.write('    Append this rule? [y/n] ');
+        const next = await answers!.next();
+        // End of input: decline this and the remaining proposals
+        answer = next.done ? 'n' : String(next.value).trim().toLowerCase();
+      }
+      if (answer === 'y') {
+        accepted.push(proposal.definition);
+      }
+    }
+  } finally {
+    rl?.close();
+  }
+
+  if (dryRun) {
+    console.log('\nDry run: the rules file was not modified');
+    return;
+  }
+  if (accepted.length === 0) {
+    console.log('\nNo rules accepted');
+    return;
+  }
+
+  try {
+    const rulesFile = readRulesFile(rulesPath);
+    writeRulesFile(rulesPath, { ...rulesFile, rules: [...rulesFile.rules, ...accepted] });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  console.log(`\n📐 Appended ${accepted.length} rule(s) to ${rulesPath}`);
+  console.log('💡 Run parse-transactions to apply them to the pending transactions');
+}
+
+// Run if executed directly
+main();
@@ -0,0 +1,135 @@
+import { readFileSync, existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { ParsedTransaction } from './categorization-rules';
+import { writeFileAtomic } from './atomic-write';
+import { CURRENT_SCHEMA_VERSION, validateTransactionsFile } from '../src/config/transactions-schema';
+
+// Set by `fh --data` to work on another transactions file
+let transactionsPathOverride: string | undefined;
+
+/**
+ * Location of the transactions data file: src/config/transactions.json unless overridden
+ */
+export function getTransactionsPath(): string {
+  return transactionsPathOverride ?? join(process.cwd(), 'src', 'config', 'transactions.json');
+}
+
+/**
+ * Point every reader and writer of the transactions file at another path
+ */
+export function setTransactionsPath(filePath: string): void {
+  transactionsPathOverride = resolve(filePath);
+}
+
+/**
+ * Read transactions from the JSON file, upgrading files from older schema versions in memory
+ * Returns an empty list if the file doesn't exist; throws an error listing every problem if
+ * it can't be parsed or doesn't match the schema
+ */
+export function readTransactionsFile(filePath: string): ParsedTransaction[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read transactions file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { file, problems } = validateTransactionsFile(json);
+  if (!file) {
+    throw new Error(`Invalid transactions file ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+  return file.transactions;
+}
+
+/**
+ * Generate JSON file for transactions, at the current schema version
+ */
+export function generateJSON(transactions: ParsedTransaction[]): string {
+  // Convert to plain objects, preserving override fields
+  const jsonData = transactions.map(t => {
+    const obj: any = {
+      id: t.id,
+      date: t.date,
+      description: t.description,
+      amount: t.amount,
+      category: t.category,
+      account: t.account,
+      type: t.type,
+    };
+    
+    // Only include the bank's dates and movement type if the export reported them
+    if (t.valueDate) {
+      obj.valueDate = t.valueDate;
+    }
+    if (t.bookingDate) {
+      obj.bookingDate = t.bookingDate;
+    }
+    if (t.movementType) {
+      obj.movementType = t.movementType;
+    }
+    
+    // Only include the merchant if normalization found one
+    if (t.merchant) {
+      obj.merchant = t.merchant;
+    }
+    
+    // Only include balance if the export reported it
+    if (t.balance !== undefined && t.balance !== null) {
+      obj.balance = t.balance;
+    }
+    
+    // Only include categoryOverride if it's defined and not empty
+    if (t.categoryOverride && t.categoryOverride.trim()) {
+      obj.categoryOverride = t.categoryOverride;
+    }
+    
+    // Only include descriptionOverride if it's defined and not empty
+    if (t.descriptionOverride && t.descriptionOverride.trim()) {
+      obj.descriptionOverride = t.descriptionOverride;
+    }
+    
+    // Only include provenance for transactions imported since batches are tracked
+    if (t.source) {
+      obj.source = t.source;
+    }
+    
+    // Only include the deciding rule if a rule matched
+    if (t.categorizedBy) {
+      obj.categorizedBy = t.categorizedBy;
+    }
+    
+    // Only include merged duplicate IDs if any were merged
+    if (t.mergedIds && t.mergedIds.length > 0) {
+      obj.mergedIds = t.mergedIds;
+    }
+    
+    return obj;
+  });
+  
+  return JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, transactions: jsonData }, null, 2);
+}
+
+/**
+ * Validate transactions and format them as the JSON file
+ * Throws an error listing every problem found
+ */
+export function serializeTransactionsFile(filePath: string, transactions: ParsedTransaction[]): string {
+  const content = generateJSON(transactions);
+  const { problems } = validateTransactionsFile(JSON.parse(content));
+  if (problems.length > 0) {
+    throw new Error(`Refusing to write an invalid transactions file to ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+  return content;
+}
+
+/**
+ * Validate transactions and write them to the JSON file, atomically
+ * Throws an error listing every problem found, without writing
+ */
+export function writeTransactionsFile(filePath: string, transactions: ParsedTransaction[]): void {
+  writeFileAtomic(filePath, serializeTransactionsFile(filePath, transactions));
+}
@@ -0,0 +1,33 @@
+import { ACCOUNTS } from "@/config/accounts";
+import { cn } from "@/lib/utils";
+
+interface AccountFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function AccountFilter({ value, onChange }: AccountFilterProps) {
+  const options = [
+    { id: 'all', label: 'Todas las cuentas' },
+    ...ACCOUNTS.map((account) => ({ id: account.id, label: account.name })),
+  ];
+
+  return (
+    <div className="inline-flex flex-wrap items-center bg-secondary/50 rounded-lg p-1">
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          className={cn(
+            "px-4 py-2 text-sm font-medium rounded-md transition-all duration-200",
+            value === option.id
+              ? "bg-primary text-primary-foreground shadow-sm"
+              : "text-muted-foreground hover:text-foreground"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
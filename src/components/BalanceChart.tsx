@@ -0,0 +1,101 @@
+import { Account, BalanceHistoryData } from "@/types/transaction";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  TooltipProps
+} from "recharts";
+import { formatCompactCurrency } from "@/lib/transaction-utils";
+
+interface BalanceChartProps {
+  data: BalanceHistoryData[];
+  accounts: Account[];
+}
+
+const TOTAL_COLOR = "hsl(var(--primary))";
+
+const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="glass-card p-3 border border-border/50">
+        <p className="text-sm font-medium mb-2">{label}</p>
+        {payload.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: entry.color }}
+            />
+            <span className="text-muted-foreground">{entry.name}:</span>
+            <span className="font-mono font-medium">
+              {formatCompactCurrency(entry.value)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+export function BalanceChart({ data, accounts }: BalanceChartProps) {
+  const showTotal = accounts.length > 1;
+
+  return (
+    <div className="glass-card p-4 sm:p-6 animate-slide-up" style={{ animationDelay: '250ms' }}>
+      <h3 className="text-base sm:text-lg font-semibold mb-4 sm:mb-6">Evolución del Saldo</h3>
+      <div className="h-[220px] sm:h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 5, left: -15, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+            <XAxis
+              dataKey="period"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tickFormatter={(value) => formatCompactCurrency(value)}
+              width={50}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend
+              wrapperStyle={{ paddingTop: '10px' }}
+              formatter={(value) => <span className="text-foreground text-xs sm:text-sm">{value}</span>}
+            />
+            {accounts.map((account) => (
+              <Line
+                key={account.id}
+                type="monotone"
+                dataKey={`balances.${account.id}`}
+                name={account.name}
+                stroke={account.color}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+            {showTotal && (
+              <Line
+                type="monotone"
+                dataKey="total"
+                name="Total"
+                stroke={TOTAL_COLOR}
+                strokeWidth={2.5}
+                strokeDasharray="5 3"
+                dot={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 import { CategorySpending } from "@/types/transaction";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { getCategoryById } from "@/config/categories";
 import { formatCurrency } from "@/lib/transaction-utils";
+import { cn } from "@/lib/utils";
 
 interface CategoryBreakdownProps {
   data: CategorySpending[];
+  parentId?: string; // Category drilled into; top-level categories when unset
+  onDrillDown: (categoryId: string | undefined) => void;
 }
 
 const CustomTooltip = ({ active, payload }: any) => {
@@ -21,12 +26,26 @@ const CustomTooltip = ({ active, payload }: any) => {
   return null;
 };
 
-export function CategoryBreakdown({ data }: CategoryBreakdownProps) {
+export function CategoryBreakdown({ data, parentId, onDrillDown }: CategoryBreakdownProps) {
   const top6 = data.slice(0, 6);
+  const parent = parentId ? getCategoryById(parentId) : undefined;
   
   return (
     <div className="glass-card p-4 sm:p-6 animate-slide-up h-full" style={{ animationDelay: '300ms' }}>
-      <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4">Gastos por Categoría</h3>
+      <div className="flex items-center gap-2 mb-3 sm:mb-4">
+        {parentId && (
+          <button
+            onClick={() => onDrillDown(parent?.parentId)}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Volver"
+          >
+            <ChevronLeft className="h-4 w-4 sm:h-5 sm:w-5" />
+          </button>
+        )}
+        <h3 className="text-base sm:text-lg font-semibold truncate">
+          Gastos por Categoría{parent && <span className="text-muted-foreground"> · {parent.icon} {parent.name}</span>}
+        </h3>
+      </div>
       
       <div className="flex flex-row lg:flex-col items-center gap-4 lg:gap-0">
         <div className="w-[140px] h-[140px] sm:w-[180px] sm:h-[180px] lg:w-[200px] lg:h-[200px] lg:mb-6 flex-shrink-0">
@@ -42,7 +61,12 @@ export function CategoryBreakdown({ data }: CategoryBreakdownProps) {
                 dataKey="amount"
               >
                 {top6.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.color} />
+                  <Cell
+                    key={`cell-${index}`}
+                    fill={entry.color}
+                    className={entry.hasChildren ? "cursor-pointer" : undefined}
+                    onClick={() => entry.hasChildren && onDrillDown(entry.categoryId)}
+                  />
                 ))}
               </Pie>
               <Tooltip content={<CustomTooltip />} />
@@ -53,15 +77,20 @@ export function CategoryBreakdown({ data }: CategoryBreakdownProps) {
         <div className="flex-1 w-full space-y-2 sm:space-y-2.5">
           {top6.map((item, index) => (
             <div 
-              key={item.category} 
-              className="flex items-center gap-2 sm:gap-3 animate-fade-in"
+              key={item.categoryId} 
+              className={cn(
+                "flex items-center gap-2 sm:gap-3 animate-fade-in",
+                item.hasChildren && "cursor-pointer hover:opacity-80"
+              )}
               style={{ animationDelay: `${400 + index * 50}ms` }}
+              onClick={() => item.hasChildren && onDrillDown(item.categoryId)}
             >
               <div 
                 className="w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full flex-shrink-0" 
                 style={{ backgroundColor: item.color }}
               />
               <span className="text-xs sm:text-sm flex-1 truncate">{item.category}</span>
+              {item.hasChildren && <ChevronRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
               <span className="text-xs sm:text-sm font-mono text-muted-foreground whitespace-nowrap hidden sm:block">
                 {formatCurrency(item.amount)}
               </span>
@@ -0,0 +1,390 @@
+import { useEffect, useState } from "react";
+import { Archive, ArchiveRestore, GitMerge, Pencil, Plus, TextCursorInput } from "lucide-react";
+import { toast } from "sonner";
+import { Category, CategoryChange, CategoryChangeResult, Transaction } from "@/types/transaction";
+import { CATEGORIES } from "@/config/categories";
+import { PENDING_CATEGORY_ID } from "@/config/categories-schema";
+import { CATEGORIES_EDITABLE, applyCategoryChange, fetchCategories } from "@/lib/categories-api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type TransactionType = Transaction["type"];
+
+const NO_PARENT = "__none__";
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  income: "Ingresos",
+  expense: "Gastos",
+};
+
+type FormState = {
+  mode: "create" | "edit";
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  parentId: string;
+  types: TransactionType[];
+};
+
+// Renames and merges rewrite transactions, so they are previewed before they are applied
+type ReviewState = {
+  action: "rename" | "merge";
+  category: Category;
+  target: string;
+  preview?: CategoryChangeResult;
+};
+
+function describeImpact(result: CategoryChangeResult): string {
+  return `Afectará a ${result.transactionsUpdated} transacciones, ${result.rulesUpdated} reglas y ${result.subcategoriesUpdated} subcategorías.`;
+}
+
+export function CategoryCatalogue() {
+  const [categories, setCategories] = useState<Category[]>(CATEGORIES);
+  const [showArchived, setShowArchived] = useState(false);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!CATEGORIES_EDITABLE) return;
+    fetchCategories()
+      .then(setCategories)
+      .catch((error: Error) => toast.error(error.message));
+  }, []);
+
+  const apply = async (change: CategoryChange, message: string) => {
+    setBusy(true);
+    try {
+      const result = await applyCategoryChange(change);
+      setCategories(result.categories);
+      toast.success(message, { description: result.warnings.join("\n") || undefined });
+      return true;
+    } catch (error) {
+      toast.error((error as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitForm = async () => {
+    if (!form) return;
+    const fields = { name: form.name.trim(), icon: form.icon.trim(), color: form.color };
+    const parentId = form.parentId === NO_PARENT ? undefined : form.parentId;
+    const types = form.types.length > 0 ? form.types : undefined;
+    // Edits send cleared fields as empty values, since JSON drops undefined ones
+    const change: CategoryChange =
+      form.mode === "create"
+        ? { action: "create", category: { id: form.id.trim(), ...fields, parentId, types } }
+        : { action: "edit", id: form.id, changes: { ...fields, parentId: parentId ?? "", types: form.types } };
+    if (await apply(change, form.mode === "create" ? `Categoría ${fields.name} creada` : `Categoría ${fields.name} actualizada`)) {
+      setForm(null);
+    }
+  };
+
+  const reviewChange = (state: ReviewState): CategoryChange =>
+    state.action === "rename"
+      ? { action: "rename", id: state.category.id, newId: state.target.trim() }
+      : { action: "merge", id: state.category.id, into: state.target };
+
+  const previewReview = async () => {
+    if (!review) return;
+    setBusy(true);
+    try {
+      setReview({ ...review, preview: await applyCategoryChange(reviewChange(review), true) });
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmReview = async () => {
+    if (!review) return;
+    const message = review.action === "rename"
+      ? `${review.category.id} renombrada a ${review.target.trim()}`
+      : `${review.category.name} fusionada en ${categories.find(c => c.id === review.target)?.name}`;
+    if (await apply(reviewChange(review), message)) {
+      setReview(null);
+    }
+  };
+
+  const openForm = (category?: Category) => {
+    setForm(category
+      ? {
+          mode: "edit",
+          id: category.id,
+          name: category.name,
+          icon: category.icon,
+          color: category.color,
+          parentId: category.parentId ?? NO_PARENT,
+          types: category.types ?? [],
+        }
+      : { mode: "create", id: "", name: "", icon: "", color: "hsl(215 16% 47%)", parentId: NO_PARENT, types: [] });
+  };
+
+  const renderCategory = (category: Category, depth: number) => {
+    if (category.archived && !showArchived) return null;
+    const children = categories.filter(child => child.parentId === category.id);
+    const isPending = category.id === PENDING_CATEGORY_ID;
+
+    return (
+      <div key={category.id}>
+        <div
+          className="flex items-center gap-2 sm:gap-3 py-2 px-2 sm:px-3 rounded-lg hover:bg-secondary/50 transition-colors"
+          style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}
+        >
+          <span
+            className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-lg text-base"
+            style={{ backgroundColor: `${category.color}15` }}
+          >
+            {category.icon}
+          </span>
+          <div className="min-w-0 flex-1">
+            <p className={category.archived ? "text-sm font-medium text-muted-foreground line-through" : "text-sm font-medium"}>
+              {category.name}
+            </p>
+            <p className="text-xs font-mono text-muted-foreground truncate">{category.id}</p>
+          </div>
+          <div className="hidden sm:flex items-center gap-1">
+            {(category.types ?? []).map(type => (
+              <Badge key={type} variant="secondary">{TYPE_LABELS[type]}</Badge>
+            ))}
+            {category.archived && <Badge variant="outline">Archivada</Badge>}
+          </div>
+          {CATEGORIES_EDITABLE && !isPending && (
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" aria-label="Editar" onClick={() => openForm(category)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Renombrar"
+                onClick={() => setReview({ action: "rename", category, target: category.id })}
+              >
+                <TextCursorInput className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Fusionar"
+                onClick={() => setReview({ action: "merge", category, target: "" })}
+              >
+                <GitMerge className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={category.archived ? "Desarchivar" : "Archivar"}
+                disabled={busy}
+                onClick={() =>
+                  apply(
+                    { action: category.archived ? "unarchive" : "archive", id: category.id },
+                    `${category.name} ${category.archived ? "desarchivada" : "archivada"}`
+                  )
+                }
+              >
+                {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              </Button>
+            </div>
+          )}
+        </div>
+        {children.map(child => renderCategory(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const archivedCount = categories.filter(category => category.archived).length;
+
+  return (
+    <div className="glass-card p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold">Catálogo de categorías</h2>
+          {!CATEGORIES_EDITABLE && (
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              Solo lectura: edita el catálogo con <code>npm run categories</code> o desde <code>npm run dev</code>.
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Checkbox checked={showArchived} onCheckedChange={checked => setShowArchived(checked === true)} />
+              Mostrar archivadas ({archivedCount})
+            </label>
+          )}
+          {CATEGORIES_EDITABLE && (
+            <Button size="sm" onClick={() => openForm()}>
+              <Plus className="h-4 w-4" />
+              Nueva
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-0.5">
+        {categories.filter(category => !category.parentId).map(category => renderCategory(category, 0))}
+      </div>
+
+      <Dialog open={form !== null} onOpenChange={open => !open && setForm(null)}>
+        {form && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{form.mode === "create" ? "Nueva categoría" : `Editar ${form.name}`}</DialogTitle>
+            </DialogHeader>
+            <div className="grid gap-4">
+              {form.mode === "create" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="category-id">ID</Label>
+                  <Input id="category-id" placeholder="mi-categoria" value={form.id} onChange={e => setForm({ ...form, id: e.target.value })} />
+                </div>
+              )}
+              <div className="grid grid-cols-[1fr_4rem_10rem] gap-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="category-name">Nombre</Label>
+                  <Input id="category-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="category-icon">Icono</Label>
+                  <Input id="category-icon" value={form.icon} onChange={e => setForm({ ...form, icon: e.target.value })} />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="category-color">Color</Label>
+                  <div className="flex items-center gap-2">
+                    <span className="h-4 w-4 flex-shrink-0 rounded-full" style={{ backgroundColor: form.color }} />
+                    <Input id="category-color" value={form.color} onChange={e => setForm({ ...form, color: e.target.value })} />
+                  </div>
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Categoría padre</Label>
+                <Select value={form.parentId} onValueChange={parentId => setForm({ ...form, parentId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>Ninguna</SelectItem>
+                    {categories
+                      .filter(category => category.id !== form.id && !category.archived)
+                      .map(category => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Se aplica a</Label>
+                <div className="flex gap-4">
+                  {(Object.keys(TYPE_LABELS) as TransactionType[]).map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={form.types.includes(type)}
+                        onCheckedChange={checked =>
+                          setForm({
+                            ...form,
+                            types: checked === true ? [...form.types, type] : form.types.filter(t => t !== type),
+                          })
+                        }
+                      />
+                      {TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Sin marcar, se aplica a ingresos y gastos.</p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+              <Button disabled={busy || !form.name.trim() || !form.icon.trim() || !form.color.trim() || !form.id.trim()} onClick={submitForm}>
+                Guardar
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+
+      <Dialog open={review !== null} onOpenChange={open => !open && setReview(null)}>
+        {review && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {review.action === "rename" ? "Renombrar" : "Fusionar"} {review.category.icon} {review.category.name}
+              </DialogTitle>
+              <DialogDescription>
+                {review.action === "rename"
+                  ? "Cambia el ID de la categoría en el catálogo, las reglas y las transacciones."
+                  : "Mueve sus transacciones, reglas y subcategorías a otra categoría y la elimina del catálogo."}
+              </DialogDescription>
+            </DialogHeader>
+            {review.action === "rename" ? (
+              <div className="grid gap-2">
+                <Label htmlFor="category-new-id">Nuevo ID</Label>
+                <Input
+                  id="category-new-id"
+                  value={review.target}
+                  onChange={e => setReview({ ...review, target: e.target.value, preview: undefined })}
+                />
+              </div>
+            ) : (
+              <div className="grid gap-2">
+                <Label>Fusionar en</Label>
+                <Select value={review.target} onValueChange={target => setReview({ ...review, target, preview: undefined })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Elige una categoría" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories
+                      .filter(category => category.id !== review.category.id && !category.archived)
+                      .map(category => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {review.preview && (
+              <div className="text-sm rounded-lg bg-secondary/50 p-3 space-y-1">
+                <p>{describeImpact(review.preview)}</p>
+                {review.preview.warnings.map(warning => (
+                  <p key={warning} className="text-muted-foreground">⚠️ {warning}</p>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReview(null)}>Cancelar</Button>
+              {review.preview ? (
+                <Button disabled={busy} onClick={confirmReview}>Confirmar</Button>
+              ) : (
+                <Button
+                  disabled={busy || !review.target.trim() || review.target.trim() === review.category.id}
+                  onClick={previewReview}
+                >
+                  Revisar cambios
+                </Button>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
-import { CATEGORIES } from "@/config/categories";
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Category } from "@/types/transaction";
+import { CATEGORIES, getCategoryAncestry, getChildCategories } from "@/config/categories";
 import { cn } from "@/lib/utils";
 
 interface CategoryFilterProps {
@@ -7,17 +10,72 @@ interface CategoryFilterProps {
   onClearAll: () => void;
 }
 
-export function CategoryFilter({ 
-  selectedCategories, 
-  onToggleCategory, 
-  onClearAll 
+export function CategoryFilter({
+  selectedCategories,
+  onToggleCategory,
+  onClearAll
 }: CategoryFilterProps) {
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const toggleExpanded = (categoryId: string) => {
+    setExpanded(prev =>
+      prev.includes(categoryId)
+        ? prev.filter(id => id !== categoryId)
+        : [...prev, categoryId]
+    );
+  };
+
+  const renderCategory = (category: Category) => {
+    const isSelected = selectedCategories.includes(category.id);
+    // Selecting a parent includes its subcategories
+    const isIncluded = !isSelected && getCategoryAncestry(category.id).some(id => selectedCategories.includes(id));
+    const children = getChildCategories(category.id).filter(child => !child.archived);
+    const isExpanded = expanded.includes(category.id);
+
+    return (
+      <div key={category.id} className="contents">
+        <button
+          onClick={() => onToggleCategory(category.id)}
+          className={cn(
+            "category-badge flex items-center gap-1 sm:gap-1.5 cursor-pointer text-xs sm:text-sm py-1 px-2 sm:py-1.5 sm:px-2.5",
+            isSelected
+              ? "ring-2 ring-primary/50"
+              : isIncluded
+                ? "ring-1 ring-primary/30"
+                : "opacity-70 hover:opacity-100"
+          )}
+          style={{
+            backgroundColor: `${category.color}${isSelected ? '30' : '15'}`,
+            color: category.color
+          }}
+        >
+          <span className="text-sm sm:text-base">{category.icon}</span>
+          <span>{category.name}</span>
+          {children.length > 0 && (
+            <span
+              role="button"
+              aria-label={isExpanded ? "Ocultar subcategorías" : "Mostrar subcategorías"}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleExpanded(category.id);
+              }}
+              className="-mr-1 hover:opacity-70"
+            >
+              {isExpanded ? <ChevronDown className="h-3 w-3 sm:h-3.5 sm:w-3.5" /> : <ChevronRight className="h-3 w-3 sm:h-3.5 sm:w-3.5" />}
+            </span>
+          )}
+        </button>
+        {isExpanded && children.map(renderCategory)}
+      </div>
+    );
+  };
+
   return (
     <div className="glass-card p-3 sm:p-4">
       <div className="flex items-center justify-between mb-2 sm:mb-3">
         <h3 className="text-xs sm:text-sm font-medium text-muted-foreground">Categorías</h3>
         {selectedCategories.length > 0 && (
-          <button 
+          <button
             onClick={onClearAll}
             className="text-xs text-primary hover:text-primary/80 transition-colors"
           >
@@ -26,28 +84,7 @@ export function CategoryFilter({
         )}
       </div>
       <div className="flex flex-wrap gap-1.5 sm:gap-2">
-        {CATEGORIES.map((category) => {
-          const isSelected = selectedCategories.includes(category.id);
-          return (
-            <button
-              key={category.id}
-              onClick={() => onToggleCategory(category.id)}
-              className={cn(
-                "category-badge flex items-center gap-1 sm:gap-1.5 cursor-pointer text-xs sm:text-sm py-1 px-2 sm:py-1.5 sm:px-2.5",
-                isSelected 
-                  ? "ring-2 ring-primary/50" 
-                  : "opacity-70 hover:opacity-100"
-              )}
-              style={{ 
-                backgroundColor: `${category.color}${isSelected ? '30' : '15'}`,
-                color: category.color
-              }}
-            >
-              <span className="text-sm sm:text-base">{category.icon}</span>
-              <span>{category.name}</span>
-            </button>
-          );
-        })}
+        {CATEGORIES.filter(category => !category.parentId && !category.archived).map(renderCategory)}
       </div>
     </div>
   );
@@ -4,53 +4,83 @@ import {
   TrendingUp, 
   TrendingDown, 
   BarChart3,
-  ArrowUpDown
+  ArrowUpDown,
+  Tags
 } from "lucide-react";
+import { Link } from "react-router-dom";
 import { TRANSACTIONS } from "@/config/transactions";
-import { TimeGranularity } from "@/types/transaction";
+import { ACCOUNTS } from "@/config/accounts";
+import { TimeGranularity, DateBasis } from "@/types/transaction";
 import { 
   filterTransactionsByDateRange,
   filterTransactionsByCategory,
   filterTransactionsByType,
+  filterTransactionsByAccount,
   searchTransactions,
   calculateTotals,
+  calculateNetWorth,
   getChartData,
+  getBalanceHistory,
   getCategorySpending,
+  getTransactionDate,
   formatCurrency
 } from "@/lib/transaction-utils";
 import { StatCard } from "./StatCard";
 import { TransactionList } from "./TransactionList";
 import { CategoryFilter } from "./CategoryFilter";
 import { SpendingChart } from "./SpendingChart";
+import { BalanceChart } from "./BalanceChart";
 import { CategoryBreakdown } from "./CategoryBreakdown";
 import { SearchBar } from "./SearchBar";
 import { TypeFilter } from "./TypeFilter";
+import { AccountFilter } from "./AccountFilter";
 import { DateRangePicker } from "./DateRangePicker";
+import { DateBasisFilter } from "./DateBasisFilter";
 import { startOfMonth, endOfMonth } from "date-fns";
 
 export function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [spendingParent, setSpendingParent] = useState<string | undefined>(undefined);
   const [transactionType, setTransactionType] = useState<'all' | 'income' | 'expense'>('all');
+  const [selectedAccount, setSelectedAccount] = useState<string>('all');
   const [dateRange, setDateRange] = useState({
     start: startOfMonth(new Date()),
     end: endOfMonth(new Date())
   });
   const [chartGranularity, setChartGranularity] = useState<TimeGranularity>('month');
+  const [dateBasis, setDateBasis] = useState<DateBasis>('value');
 
   const filteredTransactions = useMemo(() => {
     let result = TRANSACTIONS;
-    result = filterTransactionsByDateRange(result, dateRange.start, dateRange.end);
+    result = filterTransactionsByDateRange(result, dateRange.start, dateRange.end, dateBasis);
     result = filterTransactionsByCategory(result, selectedCategories);
     result = filterTransactionsByType(result, transactionType);
+    result = filterTransactionsByAccount(result, selectedAccount);
     result = searchTransactions(result, searchQuery);
-    return result.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [dateRange, selectedCategories, transactionType, searchQuery]);
+    return result.sort((a, b) =>
+      new Date(getTransactionDate(b, dateBasis)).getTime() - new Date(getTransactionDate(a, dateBasis)).getTime()
+    );
+  }, [dateRange, dateBasis, selectedCategories, transactionType, selectedAccount, searchQuery]);
 
-  const totalNetWorth = useMemo(() => calculateTotals(TRANSACTIONS).net, []);
+  const selectedAccounts = useMemo(
+    () => selectedAccount === 'all' ? ACCOUNTS : ACCOUNTS.filter(a => a.id === selectedAccount),
+    [selectedAccount]
+  );
+  const totalNetWorth = useMemo(() => calculateNetWorth(TRANSACTIONS, selectedAccounts), [selectedAccounts]);
+  const balanceHistory = useMemo(
+    () => getBalanceHistory(TRANSACTIONS, selectedAccounts, dateRange.start, dateRange.end, chartGranularity),
+    [selectedAccounts, dateRange, chartGranularity]
+  );
   const totals = useMemo(() => calculateTotals(filteredTransactions), [filteredTransactions]);
-  const chartData = useMemo(() => getChartData(filteredTransactions, chartGranularity), [filteredTransactions, chartGranularity]);
-  const categorySpending = useMemo(() => getCategorySpending(filteredTransactions), [filteredTransactions]);
+  const chartData = useMemo(
+    () => getChartData(filteredTransactions, chartGranularity, dateBasis),
+    [filteredTransactions, chartGranularity, dateBasis]
+  );
+  const categorySpending = useMemo(
+    () => getCategorySpending(filteredTransactions, spendingParent),
+    [filteredTransactions, spendingParent]
+  );
 
   const handleToggleCategory = (categoryId: string) => {
     setSelectedCategories(prev => 
@@ -75,11 +105,21 @@ export function Dashboard() {
                 <p className="text-xs sm:text-sm text-muted-foreground hidden sm:block">Gestiona tus transacciones</p>
               </div>
             </div>
-            <DateRangePicker 
-              startDate={dateRange.start}
-              endDate={dateRange.end}
-              onRangeChange={(start, end) => setDateRange({ start, end })}
-            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Link
+                to="/categories"
+                className="inline-flex items-center gap-1.5 px-3 py-2 text-sm font-medium rounded-lg bg-secondary/50 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Tags className="h-4 w-4" />
+                Categorías
+              </Link>
+              <DateBasisFilter value={dateBasis} onChange={setDateBasis} />
+              <DateRangePicker 
+                startDate={dateRange.start}
+                endDate={dateRange.end}
+                onRangeChange={(start, end) => setDateRange({ start, end })}
+              />
+            </div>
           </div>
         </div>
       </header>
@@ -90,7 +130,7 @@ export function Dashboard() {
           <StatCard
             title="Patrimonio Neto"
             value={formatCurrency(totalNetWorth)}
-            subtitle="Balance total histórico"
+            subtitle="Saldo actual de las cuentas"
             icon={<Wallet className="h-4 w-4 sm:h-5 sm:w-5" />}
             variant={totalNetWorth >= 0 ? 'income' : 'expense'}
             delay={0}
@@ -115,15 +155,16 @@ export function Dashboard() {
 
         {/* Charts Row */}
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-4 sm:gap-6 mb-6 sm:mb-8">
-          <div className="lg:col-span-3">
+          <div className="lg:col-span-3 space-y-4 sm:space-y-6">
             <SpendingChart 
               data={chartData} 
               granularity={chartGranularity}
               onGranularityChange={setChartGranularity}
             />
+            <BalanceChart data={balanceHistory} accounts={selectedAccounts} />
           </div>
           <div className="lg:col-span-2">
-            <CategoryBreakdown data={categorySpending} />
+            <CategoryBreakdown data={categorySpending} parentId={spendingParent} onDrillDown={setSpendingParent} />
           </div>
         </div>
 
@@ -139,6 +180,7 @@ export function Dashboard() {
             <div className="flex-1">
               <SearchBar value={searchQuery} onChange={setSearchQuery} />
             </div>
+            <AccountFilter value={selectedAccount} onChange={setSelectedAccount} />
             <TypeFilter value={transactionType} onChange={setTransactionType} />
           </div>
         </div>
@@ -154,7 +196,7 @@ export function Dashboard() {
               Mostrando {filteredTransactions.length} transacciones
             </span>
           </div>
-          <TransactionList transactions={filteredTransactions} />
+          <TransactionList transactions={filteredTransactions} dateBasis={dateBasis} />
         </div>
       </main>
     </div>
@@ -0,0 +1,33 @@
+import { cn } from "@/lib/utils";
+import { DateBasis } from "@/types/transaction";
+
+interface DateBasisFilterProps {
+  value: DateBasis;
+  onChange: (value: DateBasis) => void;
+}
+
+export function DateBasisFilter({ value, onChange }: DateBasisFilterProps) {
+  const options = [
+    { id: 'value' as const, label: 'Fecha valor' },
+    { id: 'booking' as const, label: 'Fecha contable' },
+  ];
+
+  return (
+    <div className="inline-flex items-center bg-secondary/50 rounded-lg p-1">
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          className={cn(
+            "px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition-all duration-200",
+            value === option.id
+              ? "bg-primary text-primary-foreground shadow-sm"
+              : "text-muted-foreground hover:text-foreground"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
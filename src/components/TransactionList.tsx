@@ -1,15 +1,16 @@
-import { Transaction } from "@/types/transaction";
+import { Transaction, DateBasis } from "@/types/transaction";
 import { getCategoryById } from "@/config/categories";
-import { formatCurrency, getEffectiveCategory, getEffectiveDescription } from "@/lib/transaction-utils";
+import { formatCurrency, getEffectiveCategory, getEffectiveDescription, getTransactionDate } from "@/lib/transaction-utils";
 import { format, parseISO } from "date-fns";
 import { es } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 
 interface TransactionListProps {
   transactions: Transaction[];
+  dateBasis?: DateBasis;
 }
 
-export function TransactionList({ transactions }: TransactionListProps) {
+export function TransactionList({ transactions, dateBasis = 'value' }: TransactionListProps) {
   if (transactions.length === 0) {
     return (
       <div className="glass-card p-6 sm:p-8 text-center">
@@ -34,9 +35,10 @@ export function TransactionList({ transactions }: TransactionListProps) {
             >
               <div className="flex items-start justify-between gap-2 mb-2">
                 <div className="flex-1 min-w-0">
-                  <p className="font-medium text-sm truncate">{effectiveDescription}</p>
+                  <p className="font-medium text-sm truncate" title={transaction.description}>{effectiveDescription}</p>
                   <p className="font-mono text-xs text-muted-foreground">
-                    {format(parseISO(transaction.date), 'd MMM yyyy', { locale: es })}
+                    {format(parseISO(getTransactionDate(transaction, dateBasis)), 'd MMM yyyy', { locale: es })}
+                    {transaction.movementType && ` · ${transaction.movementType}`}
                   </p>
                 </div>
                 <span className={cn(
@@ -87,11 +89,14 @@ export function TransactionList({ transactions }: TransactionListProps) {
                   >
                     <td className="p-4">
                       <span className="font-mono text-sm text-muted-foreground">
-                        {format(parseISO(transaction.date), 'd MMM yyyy', { locale: es })}
+                        {format(parseISO(getTransactionDate(transaction, dateBasis)), 'd MMM yyyy', { locale: es })}
                       </span>
                     </td>
                     <td className="p-4">
-                      <span className="font-medium">{effectiveDescription}</span>
+                      <span className="font-medium" title={transaction.description}>{effectiveDescription}</span>
+                      {transaction.movementType && (
+                        <span className="block text-xs text-muted-foreground">{transaction.movementType}</span>
+                      )}
                     </td>
                     <td className="p-4">
                       <span 
@@ -0,0 +1,30 @@
+import { Account } from "@/types/transaction";
+
+export const ACCOUNTS: Account[] = [
+  {
+    id: "checking",
+    name: "Demo Checking",
+    type: "checking",
+    currency: "EUR",
+    openingBalance: 10000,
+    color: "hsl(200 70% 45%)",
+    aliases: ["Demo Checking"],
+  },
+];
+
+export const getAccountById = (id: string): Account | undefined => {
+  return ACCOUNTS.find((account) => account.id === id);
+};
+
+/**
+ * Find the account an export refers to, by ID, name or any of its aliases (case-insensitive)
+ */
+export const findAccountByReference = (reference: string): Account | undefined => {
+  const normalized = reference.trim().toLowerCase();
+  return ACCOUNTS.find(
+    (account) =>
+      account.id.toLowerCase() === normalized ||
+      account.name.toLowerCase() === normalized ||
+      account.aliases?.some((alias) => alias.toLowerCase() === normalized)
+  );
+};
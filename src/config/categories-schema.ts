@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { formatIssues } from "./schema-issues";
+import { Category, CategoryChange } from "@/types/transaction";
+
+/**
+ * Category of transactions no rule matched; it can't be renamed, merged or archived
+ */
+export const PENDING_CATEGORY_ID = "pendiente";
+
+/**
+ * Schema of one category in the catalogue
+ */
+export const categorySchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "expected lowercase letters, digits and hyphens"),
+    name: z.string().min(1),
+    icon: z.string().min(1),
+    color: z.string().min(1),
+    parentId: z.string().optional(),
+    types: z.array(z.enum(["income", "expense"])).min(1).optional(), // Transaction types it applies to; both when absent
+    archived: z.boolean().optional(), // Hidden from pickers; transactions keep it
+  })
+  .strict();
+
+/**
+ * Schema of the categories file
+ */
+export const categoriesFileSchema = z
+  .object({
+    version: z.literal(1),
+    categories: z.array(categorySchema),
+  })
+  .strict();
+
+/**
+ * Schema of a change to the catalogue, as the categories screen posts it
+ * Edits clear a field with "", [] or false
+ */
+export const categoryChangeSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("create"), category: categorySchema }).strict(),
+  z
+    .object({
+      action: z.literal("edit"),
+      id: z.string().min(1),
+      changes: z
+        .object({
+          name: z.string(),
+          icon: z.string(),
+          color: z.string(),
+          parentId: z.string(),
+          types: z.array(z.enum(["income", "expense"])),
+          archived: z.boolean(),
+        })
+        .partial()
+        .strict(),
+    })
+    .strict(),
+  z.object({ action: z.literal("archive"), id: z.string().min(1) }).strict(),
+  z.object({ action: z.literal("unarchive"), id: z.string().min(1) }).strict(),
+  z.object({ action: z.literal("rename"), id: z.string().min(1), newId: z.string().min(1) }).strict(),
+  z.object({ action: z.literal("merge"), id: z.string().min(1), into: z.string().min(1) }).strict(),
+]);
+
+/**
+ * Validate a change to the catalogue
+ * Returns every problem found, empty when it is valid
+ */
+export function validateCategoryChange(json: unknown): { change?: CategoryChange; problems: string[] } {
+  const parsed = categoryChangeSchema.safeParse(json);
+  return parsed.success ? { change: parsed.data as CategoryChange, problems: [] } : { problems: formatIssues(parsed.error) };
+}
+
+export interface CategoriesFile {
+  version: 1;
+  categories: Category[];
+}
+
+/**
+ * Find what the schema can't check: repeated IDs, unknown parents, parent cycles and a
+ * missing pending category
+ */
+export function findCategoryProblems(categories: Category[]): string[] {
+  const byId = new Map<string, Category>();
+  const problems: string[] = [];
+
+  categories.forEach((category, index) => {
+    if (byId.has(category.id)) {
+      problems.push(`categories[${index}]: another category already has the ID "${category.id}"`);
+    }
+    byId.set(category.id, category);
+  });
+
+  categories.forEach((category, index) => {
+    if (!category.parentId) return;
+    if (!byId.has(category.parentId)) {
+      problems.push(`categories[${index}] (${category.id}): parent "${category.parentId}" is not defined`);
+      return;
+    }
+    const seen = new Set([category.id]);
+    for (let parentId: string | undefined = category.parentId; parentId; parentId = byId.get(parentId)?.parentId) {
+      if (seen.has(parentId)) {
+        problems.push(`categories[${index}] (${category.id}): parent chain loops back through "${parentId}"`);
+        break;
+      }
+      seen.add(parentId);
+    }
+  });
+
+  if (!byId.has(PENDING_CATEGORY_ID)) {
+    problems.push(`the "${PENDING_CATEGORY_ID}" category is missing`);
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a categories file
+ * Returns every problem found, empty when it is valid
+ */
+export function validateCategoriesFile(json: unknown): { file?: CategoriesFile; problems: string[] } {
+  const parsed = categoriesFileSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      problems: formatIssues(parsed.error),
+    };
+  }
+  const file = parsed.data as CategoriesFile;
+  const problems = findCategoryProblems(file.categories);
+  return problems.length > 0 ? { problems } : { file, problems };
+}
@@ -1,28 +1,18 @@
 import { Category } from "@/types/transaction";
+import { validateCategoriesFile } from "./categories-schema";
+import categoriesData from "./categories.json";
 
-export const CATEGORIES: Category[] = [
-  { id: "salary", name: "Salary", icon: "💼", color: "hsl(145 70% 35%)" },
-  { id: "rent", name: "Rent", icon: "🏠", color: "hsl(28 80% 55%)" },
-  { id: "groceries", name: "Groceries", icon: "🛒", color: "hsl(160 65% 40%)" },
-  { id: "dining", name: "Dining", icon: "🍽️", color: "hsl(24 85% 55%)" },
-  { id: "transport", name: "Transport", icon: "🚆", color: "hsl(200 70% 45%)" },
-  { id: "utilities", name: "Utilities", icon: "💡", color: "hsl(48 85% 50%)" },
-  { id: "entertainment", name: "Entertainment", icon: "🎬", color: "hsl(340 70% 55%)" },
-  { id: "health", name: "Health", icon: "🩺", color: "hsl(0 70% 55%)" },
-  { id: "travel", name: "Travel", icon: "✈️", color: "hsl(210 80% 55%)" },
-  { id: "shopping", name: "Shopping", icon: "🛍️", color: "hsl(280 70% 60%)" },
-  { id: "education", name: "Education", icon: "🎓", color: "hsl(260 70% 50%)" },
-  { id: "pets", name: "Pets", icon: "🐾", color: "hsl(30 60% 50%)" },
-  { id: "subscriptions", name: "Subscriptions", icon: "📺", color: "hsl(220 60% 50%)" },
-  { id: "savings", name: "Savings", icon: "🏦", color: "hsl(150 55% 35%)" },
-  { id: "other", name: "Other", icon: "📦", color: "hsl(215 20% 55%)" },
-  {
-    id: "pendiente",
-    name: "Pending Review",
-    icon: "❓",
-    color: "hsl(215 20% 55%)",
-  },
-];
+/**
+ * The category catalogue, from categories.json
+ * Edit it with the categories CLI or the dashboard's categories screen
+ */
+export const CATEGORIES: Category[] = (() => {
+  const { file, problems } = validateCategoriesFile(categoriesData);
+  if (!file) {
+    throw new Error(`Invalid categories file src/config/categories.json:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+  return file.categories;
+})();
 
 export const getCategoryById = (id: string): Category | undefined => {
   return CATEGORIES.find((cat) => cat.id === id);
@@ -32,3 +22,34 @@ export const getCategoryColor = (categoryId: string): string => {
   const category = getCategoryById(categoryId);
   return category?.color || "hsl(215 20% 55%)";
 };
+
+/**
+ * Get the direct subcategories of a category
+ */
+export const getChildCategories = (parentId: string): Category[] => {
+  return CATEGORIES.filter((cat) => cat.parentId === parentId);
+};
+
+/**
+ * Get a category's ID and the IDs of all its subcategories, at any depth
+ */
+export const getCategoryDescendantIds = (categoryId: string): string[] => {
+  return [categoryId, ...getChildCategories(categoryId).flatMap((child) => getCategoryDescendantIds(child.id))];
+};
+
+/**
+ * Get the IDs from the top-level category down to the given one, e.g. ["transport", "fuel"]
+ */
+export const getCategoryAncestry = (categoryId: string): string[] => {
+  const parentId = getCategoryById(categoryId)?.parentId;
+  return parentId ? [...getCategoryAncestry(parentId), categoryId] : [categoryId];
+};
+
+/**
+ * Get a category's name with its parents', e.g. "Transport > Fuel"
+ */
+export const getCategoryPath = (categoryId: string): string => {
+  return getCategoryAncestry(categoryId)
+    .map((id) => getCategoryById(id)?.name || id)
+    .join(" > ");
+};
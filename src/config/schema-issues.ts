@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+/**
+ * Format a schema issue path like the other problems, e.g. rules[3].amount.min
+ */
+export function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (result, segment) => (typeof segment === "number" ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment),
+    ""
+  );
+}
+
+/**
+ * One problem per schema issue, e.g. "categories[2].color: Required"
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${formatIssuePath(issue.path) || "(root)"}: ${issue.message}`);
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { formatIssues } from "./schema-issues";
+import { Transaction } from "@/types/transaction";
+
+/**
+ * Version of the transactions file this code reads and writes
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected a YYYY-MM-DD date");
+
+/**
+ * Schema of one transaction in the data file
+ */
+export const transactionSchema = z
+  .object({
+    id: z.string().min(1),
+    date: isoDate,
+    description: z.string(),
+    descriptionOverride: z.string().optional(),
+    merchant: z.string().optional(),
+    amount: z.number().nonnegative(), // The sign is in `type`
+    category: z.string().min(1),
+    categoryOverride: z.string().optional(),
+    account: z.string().min(1),
+    type: z.enum(["income", "expense"]),
+    valueDate: isoDate.optional(),
+    bookingDate: isoDate.optional(),
+    movementType: z.string().optional(),
+    balance: z.number().optional(),
+    source: z
+      .object({
+        batchId: z.string().min(1),
+        file: z.string().min(1),
+        row: z.number().int().positive().optional(),
+        importedAt: z.string().min(1),
+      })
+      .strict()
+      .optional(),
+    mergedIds: z.array(z.string().min(1)).optional(),
+    categorizedBy: z
+      .object({
+        rule: z.string().min(1),
+        keyword: z.string().optional(),
+        pattern: z.string().optional(),
+        confidence: z.number().min(0).max(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Schema of the transactions file at CURRENT_SCHEMA_VERSION
+ */
+export const transactionsFileSchema = z
+  .object({
+    schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+    transactions: z.array(transactionSchema),
+  })
+  .strict();
+
+export interface TransactionsFile {
+  schemaVersion: typeof CURRENT_SCHEMA_VERSION;
+  transactions: Transaction[];
+}
+
+/**
+ * One upgrade of the transactions file, from `version - 1` to `version`
+ */
+export interface TransactionsMigration {
+  version: number;
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+/**
+ * Upgrades of the transactions file, in order. When a change to the transaction shape needs
+ * existing files rewritten (a new required field, a renamed one...), bump
+ * CURRENT_SCHEMA_VERSION, update the schema and append the migration that gets there
+ */
+export const MIGRATIONS: TransactionsMigration[] = [
+  {
+    version: 1,
+    description: "Wrap the transaction list in { schemaVersion, transactions }",
+    migrate: (data) => ({ schemaVersion: 1, transactions: data }),
+  },
+];
+
+/**
+ * Schema version of raw file contents; files from before versioning are a bare list, version 0
+ */
+export function getSchemaVersion(json: unknown): number {
+  if (Array.isArray(json)) return 0;
+  if (json && typeof json === "object" && typeof (json as { schemaVersion?: unknown }).schemaVersion === "number") {
+    return (json as { schemaVersion: number }).schemaVersion;
+  }
+  throw new Error("expected a list of transactions or an object with a numeric schemaVersion");
+}
+
+/**
+ * Run the migrations that upgrade raw file contents to CURRENT_SCHEMA_VERSION
+ * Returns the upgraded contents and the migrations applied; throws for files from a newer version
+ */
+export function migrateTransactionsData(json: unknown): { data: unknown; from: number; applied: TransactionsMigration[] } {
+  const from = getSchemaVersion(json);
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`schemaVersion ${from} is newer than this code supports (${CURRENT_SCHEMA_VERSION}); update the code`);
+  }
+
+  const applied = MIGRATIONS.filter((migration) => migration.version > from && migration.version <= CURRENT_SCHEMA_VERSION);
+  const data = applied.reduce((current, migration) => migration.migrate(current), json);
+  return { data, from, applied };
+}
+
+/**
+ * Upgrade and validate the contents of a transactions file
+ * Returns every problem found, empty when it is valid
+ */
+export function validateTransactionsFile(json: unknown): { file?: TransactionsFile; problems: string[]; migratedFrom?: number } {
+  let migrated: ReturnType<typeof migrateTransactionsData>;
+  try {
+    migrated = migrateTransactionsData(json);
+  } catch (error) {
+    return { problems: [`(root): ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const parsed = transactionsFileSchema.safeParse(migrated.data);
+  if (!parsed.success) {
+    return {
+      problems: formatIssues(parsed.error),
+    };
+  }
+  return {
+    file: parsed.data as TransactionsFile,
+    problems: [],
+    migratedFrom: migrated.applied.length > 0 ? migrated.from : undefined,
+  };
+}
@@ -2,7 +2,14 @@
 // This file is auto-generated - do not edit manually
 
 import { Transaction } from "@/types/transaction";
+import { validateTransactionsFile } from "./transactions-schema";
 import transactionsData from "./transactions.json";
 
-// Export transactions directly from JSON
-export const TRANSACTIONS: Transaction[] = transactionsData as Transaction[];
+// Export transactions from JSON, upgraded to the current schema and validated
+export const TRANSACTIONS: Transaction[] = (() => {
+  const { file, problems } = validateTransactionsFile(transactionsData);
+  if (!file) {
+    throw new Error(`Invalid transactions file src/config/transactions.json:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+  return file.transactions;
+})();
@@ -0,0 +1,36 @@
+import { Category, CategoryChange, CategoryChangeResult } from "@/types/transaction";
+
+/**
+ * The catalogue can only be edited through the dev server's API; built dashboards are read-only
+ */
+export const CATEGORIES_EDITABLE = import.meta.env.DEV;
+
+const API_URL = `${import.meta.env.BASE_URL}api/categories`;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+/**
+ * Load the catalogue as it is on disk
+ */
+export async function fetchCategories(): Promise<Category[]> {
+  const data = await request<{ categories: Category[] }>(API_URL);
+  return data.categories;
+}
+
+/**
+ * Apply a change to the catalogue, or only preview its impact with dryRun
+ */
+export function applyCategoryChange(change: CategoryChange, dryRun = false): Promise<CategoryChangeResult> {
+  return request<CategoryChangeResult>(dryRun ? `${API_URL}?dryRun` : API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(change),
+  });
+}
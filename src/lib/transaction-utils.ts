@@ -1,6 +1,25 @@
-import { Transaction, ChartData, CategorySpending, TimeGranularity } from "@/types/transaction";
-import { getCategoryColor, CATEGORIES } from "@/config/categories";
-import { format, parseISO, startOfMonth, endOfMonth, isWithinInterval, startOfWeek, endOfWeek } from "date-fns";
+import { Transaction, ChartData, CategorySpending, TimeGranularity, Account, BalanceHistoryData, DateBasis } from "@/types/transaction";
+import {
+  getCategoryColor,
+  getCategoryById,
+  getCategoryAncestry,
+  getCategoryDescendantIds,
+  getChildCategories,
+} from "@/config/categories";
+import {
+  format,
+  parseISO,
+  startOfMonth,
+  endOfMonth,
+  isWithinInterval,
+  startOfWeek,
+  endOfWeek,
+  endOfDay,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  eachMonthOfInterval,
+  min,
+} from "date-fns";
 import { es } from "date-fns/locale";
 
 /**
@@ -13,19 +32,29 @@ export function getEffectiveCategory(transaction: Transaction): string {
 
 /**
  * Get the effective description for a transaction
- * Returns descriptionOverride if defined, otherwise returns description
+ * Returns descriptionOverride if defined, otherwise the normalized merchant, otherwise the bank's description
  */
 export function getEffectiveDescription(transaction: Transaction): string {
-  return transaction.descriptionOverride || transaction.description;
+  return transaction.descriptionOverride || transaction.merchant || transaction.description;
+}
+
+/**
+ * Get the date a transaction falls on for the chosen basis
+ * Falls back to `date` for transactions imported before the bank's dates were stored
+ */
+export function getTransactionDate(transaction: Transaction, basis: DateBasis = 'value'): string {
+  const date = basis === 'booking' ? transaction.bookingDate : transaction.valueDate;
+  return date || transaction.date;
 }
 
 export const filterTransactionsByDateRange = (
   transactions: Transaction[],
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  basis: DateBasis = 'value'
 ): Transaction[] => {
   return transactions.filter(t => {
-    const date = parseISO(t.date);
+    const date = parseISO(getTransactionDate(t, basis));
     return isWithinInterval(date, { start: startDate, end: endDate });
   });
 };
@@ -35,7 +64,9 @@ export const filterTransactionsByCategory = (
   categoryIds: string[]
 ): Transaction[] => {
   if (categoryIds.length === 0) return transactions;
-  return transactions.filter(t => categoryIds.includes(getEffectiveCategory(t)));
+  // A parent category stands for all its subcategories
+  const included = new Set(categoryIds.flatMap(getCategoryDescendantIds));
+  return transactions.filter(t => included.has(getEffectiveCategory(t)));
 };
 
 export const filterTransactionsByType = (
@@ -46,6 +77,14 @@ export const filterTransactionsByType = (
   return transactions.filter(t => t.type === type);
 };
 
+export const filterTransactionsByAccount = (
+  transactions: Transaction[],
+  accountId: string
+): Transaction[] => {
+  if (accountId === 'all') return transactions;
+  return transactions.filter(t => t.account === accountId);
+};
+
 export const searchTransactions = (
   transactions: Transaction[],
   query: string
@@ -56,6 +95,8 @@ export const searchTransactions = (
     const effectiveDescription = getEffectiveDescription(t);
     return (
       effectiveDescription.toLowerCase().includes(lowerQuery) ||
+      (t.merchant?.toLowerCase().includes(lowerQuery) ?? false) ||
+      t.description.toLowerCase().includes(lowerQuery) ||
       getEffectiveCategory(t).toLowerCase().includes(lowerQuery)
     );
   });
@@ -78,30 +119,48 @@ export const calculateTotals = (transactions: Transaction[]) => {
   };
 };
 
+/**
+ * Key of the period a date falls in: the day, the Monday of its week, or its month
+ */
+const getPeriodKey = (date: Date, granularity: TimeGranularity): string => {
+  switch (granularity) {
+    case 'day':
+      return format(date, 'yyyy-MM-dd');
+    case 'week':
+      return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    case 'month':
+    default:
+      return format(date, 'yyyy-MM');
+  }
+};
+
+/**
+ * Human-readable label for a period key
+ */
+const formatPeriodLabel = (key: string, granularity: TimeGranularity): string => {
+  switch (granularity) {
+    case 'day':
+      return format(parseISO(key), 'd MMM', { locale: es });
+    case 'week': {
+      const weekStart = parseISO(key);
+      const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
+      return `${format(weekStart, 'd', { locale: es })}-${format(weekEnd, 'd MMM', { locale: es })}`;
+    }
+    case 'month':
+    default:
+      return format(parseISO(`${key}-01`), 'MMM yyyy', { locale: es });
+  }
+};
+
 export const getChartData = (
   transactions: Transaction[],
-  granularity: TimeGranularity
+  granularity: TimeGranularity,
+  basis: DateBasis = 'value'
 ): ChartData[] => {
   const dataMap = new Map<string, { income: number; expenses: number }>();
   
   transactions.forEach(t => {
-    const date = parseISO(t.date);
-    let key: string;
-    
-    switch (granularity) {
-      case 'day':
-        key = format(date, 'yyyy-MM-dd');
-        break;
-      case 'week':
-        const weekStart = startOfWeek(date, { weekStartsOn: 1 });
-        key = format(weekStart, 'yyyy-MM-dd');
-        break;
-      case 'month':
-      default:
-        key = format(date, 'yyyy-MM');
-        break;
-    }
-    
+    const key = getPeriodKey(parseISO(getTransactionDate(t, basis)), granularity);
     const existing = dataMap.get(key) || { income: 0, expenses: 0 };
     
     if (t.type === 'income') {
@@ -115,31 +174,12 @@ export const getChartData = (
   
   return Array.from(dataMap.entries())
     .sort(([a], [b]) => a.localeCompare(b))
-    .map(([key, data]) => {
-      let period: string;
-      
-      switch (granularity) {
-        case 'day':
-          period = format(parseISO(key), 'd MMM', { locale: es });
-          break;
-        case 'week':
-          const weekStart = parseISO(key);
-          const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-          period = `${format(weekStart, 'd', { locale: es })}-${format(weekEnd, 'd MMM', { locale: es })}`;
-          break;
-        case 'month':
-        default:
-          period = format(parseISO(`${key}-01`), 'MMM yyyy', { locale: es });
-          break;
-      }
-      
-      return {
-        period,
-        income: data.income,
-        expenses: data.expenses,
-        net: data.income - data.expenses
-      };
-    });
+    .map(([key, data]) => ({
+      period: formatPeriodLabel(key, granularity),
+      income: data.income,
+      expenses: data.expenses,
+      net: data.income - data.expenses
+    }));
 };
 
 // Keep for backwards compatibility
@@ -147,22 +187,145 @@ export const getMonthlyData = (transactions: Transaction[]): ChartData[] => {
   return getChartData(transactions, 'month');
 };
 
-export const getCategorySpending = (transactions: Transaction[]): CategorySpending[] => {
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const getSignedAmount = (transaction: Transaction): number =>
+  transaction.type === 'income' ? transaction.amount : -transaction.amount;
+
+/**
+ * Closing balance of an account for every day it has movements, oldest first
+ *
+ * Days with bank-reported balances use them; same-day movements come in no reliable
+ * order, so the closing one is the movement no other same-day movement follows from.
+ * Days without reported balances carry the previous balance forward by their net amount,
+ * starting from the account's opening balance.
+ */
+export const getDailyBalances = (
+  transactions: Transaction[],
+  account: Account
+): { date: string; balance: number }[] => {
+  const byDate = new Map<string, Transaction[]>();
+  transactions
+    .filter(t => t.account === account.id)
+    .forEach(t => {
+      const list = byDate.get(t.date) || [];
+      list.push(t);
+      byDate.set(t.date, list);
+    });
+
+  let running = account.openingBalance;
+  return Array.from(byDate.keys())
+    .sort()
+    .map(date => {
+      const day = byDate.get(date)!;
+      const reported = day.filter(t => t.balance !== undefined && t.balance !== null);
+
+      if (reported.length > 0) {
+        const closing = reported.find(t =>
+          !reported.some(other => toCents(other.balance! - getSignedAmount(other)) === toCents(t.balance!))
+        ) ?? reported[reported.length - 1];
+        running = closing.balance!;
+      } else {
+        running += day.reduce((sum, t) => sum + getSignedAmount(t), 0);
+      }
+
+      return { date, balance: running };
+    });
+};
+
+/**
+ * Latest balance of each account (its opening balance if it has no movements)
+ */
+export const getCurrentBalances = (
+  transactions: Transaction[],
+  accounts: Account[]
+): Record<string, number> => {
+  return Object.fromEntries(
+    accounts.map(account => {
+      const daily = getDailyBalances(transactions, account);
+      return [account.id, daily.length > 0 ? daily[daily.length - 1].balance : account.openingBalance];
+    })
+  );
+};
+
+/**
+ * Net worth: the sum of the current balances of the given accounts
+ */
+export const calculateNetWorth = (transactions: Transaction[], accounts: Account[]): number => {
+  return Object.values(getCurrentBalances(transactions, accounts)).reduce((sum, balance) => sum + balance, 0);
+};
+
+/**
+ * Balance of each account, and their total, at the end of every period in the range
+ * Pass all transactions (not only those in the range) so earlier balances carry forward
+ */
+export const getBalanceHistory = (
+  transactions: Transaction[],
+  accounts: Account[],
+  startDate: Date,
+  endDate: Date,
+  granularity: TimeGranularity
+): BalanceHistoryData[] => {
+  if (startDate > endDate) return [];
+
+  const interval = { start: startDate, end: endDate };
+  const periodStarts =
+    granularity === 'day' ? eachDayOfInterval(interval)
+    : granularity === 'week' ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+    : eachMonthOfInterval(interval);
+
+  const dailyByAccount = accounts.map(account => ({
+    account,
+    daily: getDailyBalances(transactions, account),
+  }));
+
+  return periodStarts.map(periodStart => {
+    const periodEnd =
+      granularity === 'day' ? endOfDay(periodStart)
+      : granularity === 'week' ? endOfWeek(periodStart, { weekStartsOn: 1 })
+      : endOfMonth(periodStart);
+    const lastDay = format(min([periodEnd, endDate]), 'yyyy-MM-dd');
+
+    const balances: Record<string, number> = {};
+    dailyByAccount.forEach(({ account, daily }) => {
+      const latest = daily.filter(d => d.date <= lastDay).pop();
+      balances[account.id] = latest ? latest.balance : account.openingBalance;
+    });
+
+    return {
+      period: formatPeriodLabel(getPeriodKey(periodStart, granularity), granularity),
+      balances,
+      total: Object.values(balances).reduce((sum, balance) => sum + balance, 0),
+    };
+  });
+};
+
+/**
+ * Get expense totals per category, rolled up to the top-level categories
+ * With a parentId, drills down: only its expenses, rolled up to its direct subcategories,
+ * with the ones filed under the parent itself kept apart
+ */
+export const getCategorySpending = (transactions: Transaction[], parentId?: string): CategorySpending[] => {
   const categoryMap = new Map<string, number>();
   
   transactions
     .filter(t => t.type === 'expense')
     .forEach(t => {
-      const effectiveCategory = getEffectiveCategory(t);
-      const existing = categoryMap.get(effectiveCategory) || 0;
-      categoryMap.set(effectiveCategory, existing + t.amount);
+      const ancestry = getCategoryAncestry(getEffectiveCategory(t));
+      const depth = parentId ? ancestry.indexOf(parentId) + 1 : 0;
+      if (depth === 0 && parentId) return;
+      const rollup = ancestry[Math.min(depth, ancestry.length - 1)];
+      const existing = categoryMap.get(rollup) || 0;
+      categoryMap.set(rollup, existing + t.amount);
     });
   
   const totalExpenses = Array.from(categoryMap.values()).reduce((sum, val) => sum + val, 0);
   
   return Array.from(categoryMap.entries())
     .map(([category, amount]) => ({
-      category: CATEGORIES.find(c => c.id === category)?.name || category,
+      categoryId: category,
+      category: getCategoryById(category)?.name || category,
+      hasChildren: category !== parentId && getChildCategories(category).length > 0,
       amount,
       percentage: totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0,
       color: getCategoryColor(category)
@@ -0,0 +1,32 @@
+import { Link } from "react-router-dom";
+import { ArrowLeft, Tags } from "lucide-react";
+import { CategoryCatalogue } from "@/components/CategoryCatalogue";
+
+const Categories = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 bg-card/30 backdrop-blur-xl sticky top-0 z-50">
+        <div className="container mx-auto px-3 sm:px-4 py-3 sm:py-4">
+          <div className="flex items-center gap-2 sm:gap-3">
+            <Link to="/" className="text-muted-foreground hover:text-foreground transition-colors" aria-label="Volver al panel">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div className="p-1.5 sm:p-2 bg-primary/10 rounded-lg sm:rounded-xl">
+              <Tags className="h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg sm:text-xl font-bold">Categorías</h1>
+              <p className="text-xs sm:text-sm text-muted-foreground hidden sm:block">Crea, edita, archiva, renombra y fusiona categorías</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-3xl">
+        <CategoryCatalogue />
+      </main>
+    </div>
+  );
+};
+
+export default Categories;
@@ -3,18 +3,93 @@ export interface Transaction {
   date: string;
   description: string;
   descriptionOverride?: string;
+  merchant?: string; // Merchant derived from the description on import, e.g. "Mercadona"
   amount: number;
   category: string;
   categoryOverride?: string;
   account: string;
   type: "income" | "expense";
+  valueDate?: string; // Value date (fecha valor) as reported by the bank; `date` defaults to it
+  bookingDate?: string; // Booking date (fecha contable) as reported by the bank
+  movementType?: string; // The bank's own movement classification, e.g. "Card" or "Transfer"
+  balance?: number; // Account balance after the transaction, as reported by the bank
+  source?: ImportSource;
+  mergedIds?: string[]; // IDs of duplicates from overlapping exports merged into this transaction
+  categorizedBy?: RuleMatch; // Rule that set `category`; absent when no rule matched
 }
 
+/**
+ * The categorization rule that set a transaction's category, and what in the description it matched
+ */
+export interface RuleMatch {
+  rule: string;
+  keyword?: string;
+  pattern?: string;
+  confidence?: number; // Set when the category classifier, not a rule, decided
+}
+
+/**
+ * Where and when a transaction was imported
+ */
+export interface ImportSource {
+  batchId: string;
+  file: string;
+  row?: number; // Line in the source file where the movement starts
+  importedAt: string;
+}
+
+/**
+ * Which of the bank's dates places a transaction in time
+ */
+export type DateBasis = 'value' | 'booking';
+
 export interface Category {
   id: string;
   name: string;
   icon: string;
   color: string;
+  parentId?: string; // Parent category; subcategories roll up into it
+  types?: Array<"income" | "expense">; // Transaction types it applies to; both when absent
+  archived?: boolean; // Hidden from pickers; transactions keep it
+}
+
+/**
+ * Editable fields of a category
+ */
+export type CategoryFields = Partial<Omit<Category, "id">>;
+
+/**
+ * One change to the category catalogue
+ */
+export type CategoryChange =
+  | { action: "create"; category: Category }
+  | { action: "edit"; id: string; changes: CategoryFields }
+  | { action: "archive" | "unarchive"; id: string }
+  | { action: "rename"; id: string; newId: string }
+  | { action: "merge"; id: string; into: string };
+
+/**
+ * What a catalogue change did, or would do on a dry run
+ */
+export interface CategoryChangeResult {
+  categories: Category[]; // The catalogue after the change
+  transactionsUpdated: number; // Transactions whose category or categoryOverride was rewritten
+  rulesUpdated: number; // Rules whose category was rewritten
+  subcategoriesUpdated: number; // Categories whose parent was rewritten
+  warnings: string[];
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit-card' | 'investment' | 'cash';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+  color: string;
+  // Names or numbers the account appears under in bank exports (IBAN, card number, export header...)
+  aliases?: string[];
 }
 
 export interface DateRange {
@@ -29,13 +104,21 @@ export interface ChartData {
   net: number;
 }
 
+export interface BalanceHistoryData {
+  period: string;
+  balances: Record<string, number>; // Closing balance per account ID
+  total: number;
+}
+
 export type TimeGranularity = 'day' | 'week' | 'month';
 
 // Keep MonthlyData as alias for backwards compatibility
 export type MonthlyData = ChartData;
 
 export interface CategorySpending {
+  categoryId: string;
   category: string;
+  hasChildren: boolean; // Whether it can be drilled down into subcategories
   amount: number;
   percentage: number;
   color: string;